@@ -0,0 +1,70 @@
+import {LitElement, html, css} from 'lit'
+import {customElement, property} from 'lit/decorators.js'
+import {slottedOptionStyles} from './utils/optionStyles'
+
+/**
+ * Groups related suggestions of a Combo Box under a label, such as the countries of a
+ * region. The label stays stuck to the top of the suggestion list while the group's
+ * suggestions are scrolled past, and is never selectable itself.
+ *
+ * The combo box navigates the group's suggestions as though they were slotted directly,
+ * and hides the whole group when filtering leaves none of them showing.
+ *
+ * @slot - The li elements to provide to the user as options in this group
+ * @csspart label - The label of the group
+ */
+@customElement('combo-box-group')
+export class ComboBoxGroup extends LitElement {
+  static override styles = [
+    slottedOptionStyles,
+    css`
+      :host {
+        display: block;
+      }
+
+      :host([hidden]) {
+        display: none;
+      }
+
+      .label {
+        position: sticky;
+        top: 0;
+        padding: 0.25rem 0.5rem;
+        font-size: 0.875em;
+        font-weight: bold;
+        background-color: var(--combo-box-group-label-background, #fff);
+        color: var(--combo-box-group-label-color, #555);
+      }
+    `,
+  ]
+
+  /**
+   * The text shown above the group's suggestions and read out for them by assistive
+   * technology.
+   */
+  @property()
+  label = ''
+
+  override render() {
+    return html`
+      <div role="group" aria-labelledby="label">
+        <div part="label" class="label" id="label">${this.label}</div>
+        <slot @slotchange=${this.handleSlotChange}></slot>
+      </div>
+    `
+  }
+
+  /**
+   * Lets the combo box know the group's suggestions have changed, as slot changes
+   * within the group aren't seen by the combo box's own slot.
+   */
+  private handleSlotChange() {
+    this.dispatchEvent(new Event('combo-box-group-change', {bubbles: true}))
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'combo-box-group': ComboBoxGroup
+  }
+}
@@ -0,0 +1,128 @@
+import {LitElement, html, css} from 'lit'
+import {customElement} from 'lit/decorators.js'
+
+/**
+ * A suggestion of a Combo Box with richer content than a plain li, such as a user with
+ * an avatar, name and email. The content is laid out in up to four parts: an icon at
+ * the start, the label, a secondary description beneath it, and meta at the end.
+ *
+ * The option is used like a slotted li, being given its value by `data-value`, and may
+ * be disabled or placed within a `combo-box-group`. Only the label is used as the
+ * option's text when filtering and committing, unless `data-label` says otherwise.
+ *
+ * @slot - The label of the option
+ * @slot start - An icon or avatar shown before the label
+ * @slot description - Secondary text shown beneath the label
+ * @slot end - Meta shown after the label, such as a shortcut or count
+ * @csspart start - The container of the start slot
+ * @csspart label - The container of the label
+ * @csspart description - The container of the description slot
+ * @csspart end - The container of the end slot
+ */
+@customElement('combo-box-option')
+export class ComboBoxOption extends LitElement {
+  static override styles = css`
+    :host {
+      display: grid;
+      grid-template-columns: auto 1fr auto;
+      grid-template-areas:
+        'start label end'
+        'start description end';
+      align-items: center;
+      column-gap: var(--combo-box-spacing, 0.5rem);
+      cursor: pointer;
+      padding: var(--combo-box-option-padding, 0.5rem 1rem);
+    }
+
+    :host([hidden]) {
+      display: none;
+    }
+
+    :host(:not([disabled]):hover) {
+      background-color: var(--combo-box-option-color-background-hover);
+    }
+
+    :host(.selected) {
+      background-color: var(
+        --combo-box-suggestion-list-color-background-selected
+      );
+      color: var(--combo-box-suggestion-list-color-foreground-selected);
+    }
+
+    :host([disabled]) {
+      cursor: not-allowed;
+      color: var(--combo-box-option-color-foreground-disabled);
+    }
+
+    :host(.chosen) {
+      font-weight: var(--combo-box-option-font-weight-chosen, bold);
+      background-color: var(--combo-box-option-color-background-chosen);
+    }
+
+    .start {
+      grid-area: start;
+      display: flex;
+    }
+
+    .label {
+      grid-area: label;
+    }
+
+    .description {
+      grid-area: description;
+      font-size: 0.875em;
+      font-weight: normal;
+      color: var(--combo-box-color-muted);
+    }
+
+    :host(.selected) .description {
+      color: inherit;
+    }
+
+    .end {
+      grid-area: end;
+      font-size: 0.875em;
+    }
+
+    @media (forced-colors: active) {
+      :host(.selected) {
+        forced-color-adjust: none;
+        background-color: Highlight;
+        color: HighlightText;
+      }
+    }
+  `
+
+  /**
+   * The text of the option, leaving out the content of its start, description and end
+   * slots.
+   */
+  get label() {
+    return Array.from(this.childNodes)
+      .filter(
+        (node) =>
+          node.nodeType === Node.TEXT_NODE ||
+          (node instanceof Element && !node.hasAttribute('slot'))
+      )
+      .map((node) => node.textContent)
+      .join('')
+      .trim()
+  }
+
+  override render() {
+    return html`
+      <span part="start" class="start"><slot name="start"></slot></span>
+      <span part="label" class="label"><slot></slot></span>
+      <span part="description" class="description">
+        <slot name="description"></slot>
+      </span>
+      <span part="end" class="end"><slot name="end"></slot></span>
+    `
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'combo-box-option': ComboBoxOption
+  }
+}
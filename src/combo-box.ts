@@ -1,4 +1,4 @@
-import {LitElement, html, css} from 'lit'
+import {LitElement, html, css, nothing, TemplateResult} from 'lit'
 import {
   customElement,
   property,
@@ -7,7 +7,193 @@ import {
   queryAssignedElements,
 } from 'lit/decorators.js'
 import {ifDefined} from 'lit/directives/if-defined.js'
+import {live} from 'lit/directives/live.js'
+import {repeat} from 'lit/directives/repeat.js'
+import {styleMap} from 'lit/directives/style-map.js'
 import AnacapriEvent from './utils/AnacapriEvent'
+import debounce, {Debounced} from './utils/debounce'
+import {
+  FilterMode,
+  Matcher,
+  createMatchers,
+  getCollator,
+  highlightMatches,
+} from './utils/filter'
+import {Keymap, defaultKeymap, findKeyboardAction} from './utils/keymap'
+import {ComboBoxMessages, getMessages} from './utils/messages'
+import {
+  HistoryStorage,
+  addHistoryEntry,
+  getDefaultHistoryStorage,
+  readHistory,
+  writeHistory,
+} from './utils/history'
+import {slottedOptionStyles} from './utils/optionStyles'
+import {themeStyles} from './utils/theme'
+import {
+  NATIVE_OPTION_ATTRIBUTE,
+  NativeOptionSource,
+  createNativeOptionElements,
+  getDefaultSelectedItems,
+  selectNativeOptions,
+} from './utils/nativeOptions'
+import {PopupPosition, computePopupPosition} from './utils/position'
+import './combo-box-group'
+import {ComboBoxOption} from './combo-box-option'
+
+export {ComboBoxGroup} from './combo-box-group'
+export {ComboBoxOption}
+export type {Keymap, KeyboardAction} from './utils/keymap'
+export type {ComboBoxMessages} from './utils/messages'
+export {registerMessages} from './utils/messages'
+export {getCollator} from './utils/filter'
+export type {HistoryStorage} from './utils/history'
+
+/**
+ * Slotted elements matching this are treated as groups of options rather than options.
+ */
+const GROUP_SELECTOR = 'combo-box-group, [role="group"]'
+
+/**
+ * Counts the combo boxes created, so that each can prefix the ids it generates for its
+ * options uniquely.
+ */
+let comboBoxCount = 0
+
+/**
+ * How long the suggestion count waits to settle before it's announced, so that typing
+ * quickly doesn't queue up an announcement for every key press.
+ */
+const ANNOUNCEMENT_DELAY = 500
+
+/**
+ * How many pixels a touch can move before it's treated as scrolling the suggestion
+ * list rather than tapping an option.
+ */
+const TOUCH_SLOP = 10
+
+/**
+ * The shape of a suggestion provided as data rather than as a slotted li element, when
+ * the item accessors haven't been changed. Also how the combo box keeps track of the
+ * options the user has committed.
+ */
+export interface ComboBoxItem {
+  value: string
+  label: string
+  disabled?: boolean
+}
+
+/**
+ * Reads a field from an item, either as the name of the item's property holding it or
+ * as a function of the item. Functions are passed the item as it was given, to narrow
+ * to the developer's own type.
+ */
+export type ItemAccessor<T> = string | ((item: unknown) => T)
+
+/**
+ * Renders the content of the option for an item.
+ */
+export type ItemRenderer = (item: unknown, index: number) => TemplateResult
+
+/**
+ * Whether the user can leave any text in the input, or only the label of a committed
+ * suggestion.
+ */
+export type ComboBoxMode = 'free-text' | 'select-only'
+
+/**
+ * How suggestions are offered as the user types: in the suggestion list, inline in the
+ * input, or both. Mirrors the input's `aria-autocomplete`.
+ */
+export type ComboBoxAutocomplete = 'list' | 'inline' | 'both'
+
+/**
+ * Fetches the suggestions for the text the user has typed. The signal is aborted as
+ * soon as the request is stale, so it can be passed straight through to `fetch`. The
+ * suggestions are read with the item accessors, just like items.
+ */
+export type DataSource = (
+  query: string,
+  options: {signal: AbortSignal}
+) => Promise<Array<unknown>>
+
+/**
+ * What the suggestion list is showing besides its suggestions: nothing extra when
+ * `idle`, or a message that suggestions are `loading`, failed to load with an `error`,
+ * or that there are none for what was typed when `empty`.
+ */
+export type SuggestionListState = 'idle' | 'loading' | 'error' | 'empty'
+
+/**
+ * Whether the combo box follows the user's preferred color scheme with `auto`, or is
+ * always `light` or `dark`.
+ */
+export type ComboBoxTheme = 'auto' | 'light' | 'dark'
+
+export interface ComboBoxInputDetail {
+  /** The text in the input */
+  value: string
+}
+
+export interface ComboBoxSelectDetail {
+  /** The option being committed */
+  target: HTMLLIElement
+  /** The value of the option being committed */
+  value?: string
+  /** The id of the option being committed */
+  id: string
+  /** The label of the option being committed, as it's filled into the input */
+  label: string
+  /** Every value that will be chosen once committed, in multiple mode */
+  values?: string[]
+}
+
+export interface ComboBoxDeselectDetail {
+  /** The value of the option removed */
+  value: string
+  /** The values left chosen */
+  values: string[]
+}
+
+export interface ComboBoxChangeDetail {
+  /** The committed value, or every chosen value in multiple mode */
+  value?: string | string[]
+  /** Every committed value */
+  values: string[]
+}
+
+export interface ComboBoxCreateDetail {
+  /** The text the option is being created from */
+  value: string
+  /** Holds the option's creation until the promise of the new item resolves */
+  waitUntil: (promise: Promise<unknown>) => void
+}
+
+export interface ComboBoxHighlightDetail {
+  /** The option the user has moved to, or null when moving off every option */
+  target: HTMLLIElement | null
+  /** The value of the option moved to */
+  value?: string
+  /** The id of the option moved to */
+  id?: string
+}
+
+/**
+ * The events fired by the combo box, keyed by type. Listeners added to a `ComboBox`
+ * are typed by this map, and those events that don't share a name with a native event
+ * are added to `HTMLElementEventMap` for listeners on any element.
+ */
+export interface ComboBoxEventMap {
+  input: AnacapriEvent<ComboBoxInputDetail>
+  select: AnacapriEvent<ComboBoxSelectDetail>
+  deselect: AnacapriEvent<ComboBoxDeselectDetail>
+  change: AnacapriEvent<ComboBoxChangeDetail>
+  create: AnacapriEvent<ComboBoxCreateDetail>
+  clear: AnacapriEvent<null>
+  open: AnacapriEvent<null>
+  close: AnacapriEvent<null>
+  highlight: AnacapriEvent<ComboBoxHighlightDetail>
+}
 
 /**
  * The Combo Box provides the user with a text input field and suggestions as they type.
@@ -19,88 +205,377 @@ import AnacapriEvent from './utils/AnacapriEvent'
  *  - expand and collapse the suggestions as focus enters and leaves input
  *  - provide a developer hooks into selected suggestions and user input
  *
- * What this component does not do is filter suggestions based on user input, the developer
- * is responsible for providing the suggestions as li elements to the Combo Box.
+ * By default this component does not filter suggestions based on user input, the developer
+ * is responsible for providing the suggestions as li elements to the Combo Box, though
+ * they can also be filtered, passed as data or fetched as the user types. The guide on
+ * the documentation site covers everything else it does.
  *
  * Internally, a selected suggestion is one that the user has either hovered over or
  * navigated to via keyboard.
  *
- * @fires select - The option the user has selected from the suggestions box
+ * @fires select - The option the user has selected from the suggestions box. Cancelable,
+ * 	and canceling it leaves the option uncommitted.
+ * @fires deselect - The option the user has removed from the chosen options in multiple
+ * 	mode. Cancelable, and canceling it keeps the option chosen.
+ * @fires change - The committed value has changed
  * @fires input - The input the user has typed in the field
+ * @fires clear - The combo box has been cleared, by its clear button or `clear()`. When
+ * 	controlled, the clear button only asks for it to be cleared.
+ * @fires open - The suggestion list has opened
+ * @fires close - The suggestion list has closed
+ * @fires highlight - The option the user has moved to with the pointer or keyboard has
+ * 	changed
+ * @fires create - The user has chosen to create an option from the typed text. Cancelable,
+ * 	and the handler can pass a promise of the new item to `detail.waitUntil`.
  *
- * @slot - The li elements to provide to the user as options
+ * @slot - The li elements to provide to the user as options, optionally in groups
  * @slot indicator - A loading or success indicator to give the user feedback on the status
  * 	of the dropdown state or selected option choice.
+ * @slot loading - Shown in the suggestion list while suggestions are loading
+ * @slot error - Shown in the suggestion list when suggestions failed to load
+ * @slot empty - Shown in the suggestion list when nothing matches what was typed
+ * @slot preview - Details of the selected option, shown beside the suggestion list
  * @csspart input - The input element of the combo box
  * @csspart suggestion-list - The ul element that contains the offered suggestions of the combo box
+ * @csspart option - The li elements rendered for suggestions from items or the data source
+ * @csspart option-label - The label of an option rendered for an item with a description
+ * @csspart option-description - The description of an option rendered for an item
+ * @csspart preview - The pane beside the suggestion list holding the preview slot
+ * @csspart create-option - The option offering to create a new option from the typed text
+ * @csspart create-error - The suggestion list row shown when an option couldn't be created
+ * @csspart spinner - The default indicator shown while the data source is loading or an
+ * 	option is being created
+ * @csspart error-indicator - The default indicator shown when the data source or
+ * 	creating an option has failed
+ * @csspart loading - The suggestion list row shown while suggestions are loading
+ * @csspart error - The suggestion list row shown when suggestions failed to load
+ * @csspart empty - The suggestion list row shown when nothing matches what was typed
+ * @csspart chip - The chip shown for each chosen option in multiple mode
+ * @csspart chip-remove - The button removing a chip in multiple mode
+ * @csspart clear-button - The button clearing the combo box when it's `clearable`
+ * @csspart history - The group of recently committed options
+ * @csspart history-label - The label of the group of recently committed options
+ * @csspart history-option - Each recently committed option, which is also an `option`
+ * @csspart history-remove - The button removing a recently committed option
+ * @csspart indicator - The container of the indicator slot and clear button, at the end
+ * 	of the input
+ *
+ * @cssprop --combo-box-font-family - The font family of the input and suggestions
+ * @cssprop --combo-box-font-size - The font size of the input and suggestions
+ * @cssprop --combo-box-spacing - The spacing unit the paddings are worked out from
+ * @cssprop --combo-box-color-foreground - The text color
+ * @cssprop --combo-box-color-background - The background color of the input and list
+ * @cssprop --combo-box-color-muted - The color of labels, messages and disabled options
+ * @cssprop --combo-box-color-border - The color of the input and list borders
+ * @cssprop --combo-box-color-accent - The color of the focus ring
+ * @cssprop --combo-box-input-padding - The padding of the input
+ * @cssprop --combo-box-input-border - The border of the input
+ * @cssprop --combo-box-input-border-radius - The border radius of the input
+ * @cssprop --combo-box-input-background - The background of the input
+ * @cssprop --combo-box-input-color - The text color of the input
+ * @cssprop --combo-box-focus-ring - The outline of the focused input
+ * @cssprop --combo-box-disabled-opacity - The opacity of the disabled combo box
+ * @cssprop --combo-box-suggestion-list-border - The border of the suggestion list
+ * @cssprop --combo-box-suggestion-list-border-radius - The border radius of the
+ * 	suggestion list
+ * @cssprop --combo-box-suggestion-list-box-shadow - The shadow of the suggestion list
+ * @cssprop --combo-box-suggestion-list-background - The background of the suggestion list
+ * @cssprop --combo-box-suggestion-list-color - The text color of the suggestion list
+ * @cssprop --combo-box-suggestion-list-max-height - The tallest the suggestion list grows
+ * @cssprop --combo-box-suggestion-list-color-background-selected - The background of the
+ * 	option moved to with the pointer or keyboard
+ * @cssprop --combo-box-suggestion-list-color-foreground-selected - The text color of the
+ * 	option moved to with the pointer or keyboard
+ * @cssprop --combo-box-option-padding - The padding of each option
+ * @cssprop --combo-box-option-color-background-hover - The background of a hovered option
+ * @cssprop --combo-box-option-color-foreground-disabled - The text color of a disabled
+ * 	option
+ * @cssprop --combo-box-option-color-background-chosen - The background of a committed
+ * 	option in multiple mode
+ * @cssprop --combo-box-option-font-weight-chosen - The font weight of a committed option
+ * 	in multiple mode
+ * @cssprop --combo-box-preview-max-width - The widest the preview pane grows
+ * @cssprop --combo-box-group-label-background - The background of group labels
+ * @cssprop --combo-box-group-label-color - The text color of group labels
+ * @cssprop --combo-box-touch-target-size - The smallest the buttons get, larger for coarse
+ * 	pointers
+ * @cssprop --combo-box-list-state-color - The text color of the loading, error and empty
+ * 	messages
  */
 @customElement('combo-box')
 export class ComboBox extends LitElement {
   /**
    * This tells the browser that our custom element should behave like a form
-   * element. This allows us to label the combo-box, as well as add additional
-   * form features like validity in the future.
+   * element. This allows us to label the combo-box, take part in constraint
+   * validation, and be reset, disabled and restored along with its form.
    */
   static formAssociated = true
 
-  static override styles = css`
-    * {
-      box-sizing: border-box;
-    }
+  /**
+   * Focusing the combo box focuses its input.
+   */
+  static override shadowRootOptions: ShadowRootInit = {
+    ...LitElement.shadowRootOptions,
+    delegatesFocus: true,
+  }
 
-    :host {
-      position: relative;
-      display: inline-block;
+  static override styles = [
+    themeStyles,
+    slottedOptionStyles,
+    css`
+      * {
+        box-sizing: border-box;
+      }
 
-      --combo-box-suggestion-list-border: 1px solid #555;
-      --combo-box-suggestion-list-border-radius: 2px;
-      --combo-box-suggestion-list-box-shadow: 0px 8px 16px 0px rgb(0 0 0 / 20%);
-      --combo-box-suggestion-list-color-background-selected: #eee;
-    }
+      :host {
+        position: relative;
+        display: inline-block;
+        font-family: var(--combo-box-font-family);
+        font-size: var(--combo-box-font-size);
+        color: var(--combo-box-color-foreground);
+      }
 
-    ul {
-      display: block;
-      position: absolute;
-      visibility: hidden;
-      overflow-x: auto;
-      margin: 0;
-      padding: 0;
-      width: 100%;
-      list-style: none;
-      border-radius: var(--combo-box-suggestion-list-border-radius);
-      border: var(--combo-box-suggestion-list-border);
-      box-shadow: var(--combo-box-suggestion-list-box-shadow);
-    }
+      input {
+        font: inherit;
+        color: var(--combo-box-input-color);
+        background-color: var(--combo-box-input-background);
+        border: var(--combo-box-input-border);
+        border-radius: var(--combo-box-input-border-radius);
+        padding: var(--combo-box-input-padding);
+      }
 
-    ul[aria-expanded='true'] {
-      visibility: visible;
-    }
+      input:focus-visible {
+        outline: var(--combo-box-focus-ring);
+        outline-offset: 1px;
+      }
 
-    .input-indicator {
-      position: absolute;
-      right: 0.5rem;
-      top: 0;
-      height: 100%;
-      display: flex;
-      align-items: center;
-    }
+      ul {
+        display: block;
+        position: absolute;
+        visibility: hidden;
+        overflow-x: auto;
+        overflow-y: auto;
+        max-height: min(
+          var(--combo-box-suggestion-list-max-height, 100vh),
+          var(--combo-box-available-height, 100vh)
+        );
+        margin: 0;
+        padding: 0;
+        inset-inline-start: 0;
+        width: 100%;
+        list-style: none;
+        border-radius: var(--combo-box-suggestion-list-border-radius);
+        border: var(--combo-box-suggestion-list-border);
+        box-shadow: var(--combo-box-suggestion-list-box-shadow);
+        background-color: var(--combo-box-suggestion-list-background);
+        color: var(--combo-box-suggestion-list-color);
+      }
 
-    ::slotted(li) {
-      cursor: pointer;
-      padding: 0.5rem 1rem;
-    }
+      ul[aria-expanded='true'] {
+        visibility: visible;
+      }
 
-    ::slotted(li[aria-selected='true']) {
-      background-color: var(
-        --combo-box-suggestion-list-color-background-selected
-      );
-      color: var(--combo-box-suggestion-list-color-foreground-selected);
-    }
+      ul[data-placement='top'] {
+        bottom: 100%;
+      }
 
-    ::slotted(li[disabled]) {
-      cursor: not-allowed;
-    }
-  `
+      ul[popover] {
+        position: fixed;
+        inset: auto;
+      }
+
+      :host([sheet]) ul {
+        position: fixed;
+        max-height: none;
+        border-radius: 0;
+        border-inline: none;
+        box-shadow: none;
+      }
+
+      :host([virtual]) ul {
+        max-height: min(
+          var(--combo-box-suggestion-list-max-height, 20rem),
+          var(--combo-box-available-height, 100vh)
+        );
+      }
+
+      :host([virtual]) .option {
+        overflow: hidden;
+        white-space: nowrap;
+        text-overflow: ellipsis;
+      }
+
+      :host([disabled]) {
+        opacity: var(--combo-box-disabled-opacity);
+      }
+
+      .visually-hidden {
+        position: absolute;
+        width: 1px;
+        height: 1px;
+        overflow: hidden;
+        clip: rect(0 0 0 0);
+        white-space: nowrap;
+      }
+
+      .input-indicator {
+        position: absolute;
+        inset-inline-end: var(--combo-box-spacing);
+        top: 0;
+        height: 100%;
+        display: flex;
+        align-items: center;
+      }
+
+      .option-label,
+      .option-description {
+        display: block;
+      }
+
+      .option-description {
+        font-size: 0.875em;
+        color: var(--combo-box-color-muted);
+      }
+
+      .preview {
+        position: absolute;
+        inset-inline-start: 100%;
+        width: max-content;
+        max-width: var(--combo-box-preview-max-width, 20rem);
+        margin-inline-start: calc(var(--combo-box-spacing) / 2);
+        border-radius: var(--combo-box-suggestion-list-border-radius);
+        border: var(--combo-box-suggestion-list-border);
+        box-shadow: var(--combo-box-suggestion-list-box-shadow);
+        background-color: var(--combo-box-suggestion-list-background);
+        color: var(--combo-box-suggestion-list-color);
+      }
+
+      .preview[data-placement='top'] {
+        bottom: 100%;
+      }
+
+      .preview[hidden] {
+        display: none;
+      }
+
+      .history {
+        display: block;
+      }
+
+      .history ol {
+        margin: 0;
+        padding: 0;
+        list-style: none;
+      }
+
+      .history-label {
+        position: sticky;
+        top: 0;
+        padding: calc(var(--combo-box-spacing) / 2) var(--combo-box-spacing);
+        font-size: 0.875em;
+        font-weight: bold;
+        background-color: var(--combo-box-group-label-background);
+        color: var(--combo-box-group-label-color);
+      }
+
+      .history-option {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+      }
+
+      .clear-button,
+      .history-remove,
+      .chip button {
+        min-width: var(--combo-box-touch-target-size);
+        min-height: var(--combo-box-touch-target-size);
+      }
+
+      .clear-button,
+      .history-remove {
+        padding: 0 0.25rem;
+        border: none;
+        background: none;
+        font: inherit;
+        cursor: pointer;
+      }
+
+      .spinner {
+        display: block;
+        width: 1em;
+        height: 1em;
+        border: 2px solid currentColor;
+        border-right-color: transparent;
+        border-radius: 50%;
+        animation: spin 0.75s linear infinite;
+      }
+
+      @keyframes spin {
+        to {
+          transform: rotate(360deg);
+        }
+      }
+
+      .list-state {
+        padding: var(--combo-box-option-padding);
+        color: var(--combo-box-list-state-color);
+      }
+
+      .option {
+        cursor: pointer;
+        padding: var(--combo-box-option-padding);
+      }
+
+      .option:not([disabled]):hover {
+        background-color: var(--combo-box-option-color-background-hover);
+      }
+
+      .option.selected {
+        background-color: var(
+          --combo-box-suggestion-list-color-background-selected
+        );
+        color: var(--combo-box-suggestion-list-color-foreground-selected);
+      }
+
+      .option[disabled] {
+        cursor: not-allowed;
+        color: var(--combo-box-option-color-foreground-disabled);
+      }
+
+      .option.chosen {
+        font-weight: var(--combo-box-option-font-weight-chosen);
+        background-color: var(--combo-box-option-color-background-chosen);
+      }
+
+      @media (forced-colors: active) {
+        .option.selected {
+          forced-color-adjust: none;
+          background-color: Highlight;
+          color: HighlightText;
+        }
+      }
+
+      .chip {
+        display: inline-flex;
+        align-items: center;
+        gap: 0.25rem;
+        margin-block: 0 0.25rem;
+        margin-inline: 0 0.25rem;
+        padding-block: 0;
+        padding-inline: 0.5rem 0.25rem;
+        border: var(--combo-box-suggestion-list-border);
+        border-radius: 1rem;
+      }
+
+      .chip button {
+        padding: 0 0.25rem;
+        border: none;
+        background: none;
+        font: inherit;
+        cursor: pointer;
+      }
+    `,
+  ]
 
   /**
    * Abort controller responsible for removing all event listeners related to
@@ -127,6 +602,48 @@ export class ComboBox extends LitElement {
   private pointerX?: number
   private pointerY?: number
 
+  /**
+   * Where a touch on the suggestion list started, and whether it has since turned into
+   * a scroll, in which case lifting the finger mustn't commit the option under it.
+   */
+  private touchGesture?: {x: number; y: number; isScroll: boolean} | null
+
+  /**
+   * Suggestions hidden by the filter, as opposed to those hidden by the developer.
+   * Only these are shown again when filtering is turned off.
+   */
+  private filteredOutSuggestions = new WeakSet<Element>()
+
+  /**
+   * Abort controller for the data source request in flight, aborted as soon as the
+   * user types again so that out of order responses are never rendered.
+   */
+  private dataSourceAbortController?: AbortController | null
+
+  /**
+   * The data source call, debounced by `dataSourceDebounce` milliseconds.
+   */
+  private debouncedFetchSuggestions?: Debounced<[query: string]>
+
+  /**
+   * Whether a `create` event handler is still working on the new option.
+   */
+  @state()
+  private creating = false
+
+  /**
+   * The text of the option a `create` event handler failed to create, until the user
+   * types or commits again.
+   */
+  @state()
+  private failedCreateText: string | null = null
+
+  /**
+   * The text the user actually typed while the rest of an inline completion is shown
+   * selected after it in the input.
+   */
+  private inlineCompletionTypedText?: string | null
+
   /**
    * The currently moused over or keyboard focused suggestion from the suggestion list.
    */
@@ -134,17 +651,124 @@ export class ComboBox extends LitElement {
   selectedSuggestion?: HTMLLIElement | null
 
   /**
-   * Whether the suggestion list of the combo box is expanded and showing or not.
+   * The index within items of the selected suggestion, kept so that the selection
+   * survives its option being scrolled out of and back into the virtual window, and
+   * the items being replaced with ones including the same item.
+   */
+  private selectedItemIndex = -1
+
+  /**
+   * Prefix for the ids generated for slotted options, unique to this combo box as they
+   * share the document. Options rendered in the shadow root have ids scoped to it
+   * instead, so they come out the same when rendered on the server.
+   */
+  private readonly idPrefix = `combo-box-${comboBoxCount++}`
+
+  /**
+   * Counts the ids generated for slotted options that weren't given one.
+   */
+  private generatedIdCount = 0
+
+  /**
+   * The native select or datalist the combo box's options are created from, if any.
+   */
+  private nativeOptionSource?: NativeOptionSource | null
+
+  /**
+   * Recreates the options whenever those of the native select or datalist change.
+   */
+  private nativeOptionObserver?: MutationObserver
+
+  /**
+   * The distance from the top of the suggestion list to the first item, measured so
+   * that slotted suggestions before the items are accounted for in the virtual window.
+   */
+  private itemsOffsetTop = 0
+
+  /**
+   * How far the suggestion list has been scrolled, used to work out the virtual window.
+   */
+  @state()
+  private listScrollTop = 0
+
+  /**
+   * The visible height of the suggestion list, used to work out the virtual window.
+   */
+  @state()
+  private listHeight = 0
+
+  /**
+   * Where the suggestion list was last positioned while expanded.
+   */
+  @state()
+  private popupPosition?: PopupPosition
+
+  /**
+   * Whether the open suggestion list is shown as a sheet, as the viewport is narrower
+   * than the sheet breakpoint.
+   */
+  @state()
+  private isSheet = false
+
+  /**
+   * Whether anything has been slotted into the preview pane.
    */
   @state()
-  isExpanded = false
+  private hasPreview = false
 
   /**
-   * The value of the input field.
+   * The options committed by the user, in the order they were chosen. Holds at most one
+   * option unless in multiple mode.
+   */
+  @state()
+  private chosenItems: ComboBoxItem[] = []
+
+  /**
+   * Whether the combo box is disabled by a disabled ancestor fieldset.
+   */
+  @state()
+  private formDisabled = false
+
+  /**
+   * The message in the live region, read out politely by screen readers.
+   */
+  @state()
+  private announcement = ''
+
+  /**
+   * The remembered options, most recently committed first.
+   */
+  @state()
+  private historyEntries: ComboBoxItem[] = []
+
+  private announcementTimeout?: number
+
+  /**
+   * The value of the committed option, or in multiple mode the first of `values`. Kept
+   * up to date as the user commits options, and setting it commits the option with that
+   * value without firing any events. A value no option has is committed as its own
+   * label, as with typed text.
    */
   @property({attribute: 'value'})
   value = ''
 
+  /**
+   * The text in the input, kept up to date as the user types. Setting it replaces the
+   * text without filtering the suggestions, unless the combo box is controlled. The
+   * attribute gives the text to render on the server for the label of a slotted option.
+   */
+  @property({attribute: 'input-value'})
+  inputValue = ''
+
+  /**
+   * Leaves the value and text up to the developer. Typing, committing, removing and
+   * clearing only fire their cancelable `input`, `select`, `deselect` and `clear`
+   * events, and nothing changes until the developer sets `value`, `values` or
+   * `inputValue` in response. Suggestions are filtered as `inputValue` is set.
+   */
+  @property({type: Boolean, reflect: true})
+  controlled = false
+
   /**
    * The aria label of the input field. Safari doesn't support form custom elements,
    * so wrapping the combo box in a label won't link the label to the input. Instead,
@@ -153,6 +777,72 @@ export class ComboBox extends LitElement {
   @property()
   label?: string
 
+  /**
+   * The name the committed value is submitted under with the form.
+   */
+  @property({reflect: true})
+  name = ''
+
+  /**
+   * Whether an option must be committed for the form to be valid.
+   */
+  @property({type: Boolean, reflect: true})
+  required = false
+
+  /**
+   * Whether the combo box can be interacted with and submitted with the form.
+   */
+  @property({type: Boolean, reflect: true})
+  disabled = false
+
+  /**
+   * Whether the user can focus the input but not change the committed value.
+   */
+  @property({type: Boolean, reflect: true})
+  readonly = false
+
+  /**
+   * Whether typed text that doesn't match any of the suggestions makes the form invalid.
+   */
+  @property({type: Boolean, reflect: true})
+  strict = false
+
+  /**
+   * Whether the suggestion list is open. Setting it opens or closes the list, just like
+   * `show()` and `hide()`.
+   */
+  @property({type: Boolean, reflect: true})
+  open = false
+
+  /**
+   * Whether to show a button clearing the input and committed value while there is
+   * something to clear.
+   */
+  @property({type: Boolean, reflect: true})
+  clearable = false
+
+  /**
+   * Whether to follow the user's preferred color scheme, or always use the light or
+   * dark theme.
+   */
+  @property({reflect: true})
+  theme: ComboBoxTheme = 'auto'
+
+  /**
+   * `free-text` lets the user leave whatever they have typed in the input, while
+   * `select-only` reverts the input to the committed option when the user leaves the
+   * field without committing a suggestion.
+   */
+  @property({reflect: true})
+  mode: ComboBoxMode = 'free-text'
+
+  /**
+   * Whether suggestions are offered in the `list`, completed `inline` in the input, or
+   * `both`. The list can still be opened with the arrow keys in inline mode.
+   */
+  @property()
+  autocomplete: ComboBoxAutocomplete = 'list'
+
   /**
    * Should the keyboard navigation wrap when stepping off the ends? For instance,
    * pressing the up arrow when on the first suggestion will go to the end of the list
@@ -167,64 +857,1184 @@ export class ComboBox extends LitElement {
   @property({attribute: 'allow-tab-navigation'})
   allowTabNavigation = false
 
-  @query('input')
-  inputElement?: HTMLInputElement
-
-  @query('#combo-box-suggestion-list')
-  suggestionListElement?: HTMLUListElement
+  /**
+   * Overrides the keys bound to each keyboard action, merged over the defaults. Binding
+   * an action to an empty array disables it, for example `{first: [], last: []}` leaves
+   * Home and End to move the caret in the input.
+   */
+  @property({attribute: false})
+  keymap: Partial<Keymap> = {}
 
-  @queryAssignedElements({flatten: true, selector: ':not([disabled])'})
-  suggestionItemElements!: Array<HTMLLIElement>
+  /**
+   * Overrides the messages announced to screen reader users, merged over the English
+   * defaults.
+   */
+  @property({attribute: false})
+  messages: Partial<ComboBoxMessages> = {}
 
-  constructor() {
+  /**
+   * The BCP 47 language tag of the locale to show messages and match suggestions in.
+   * Defaults to the `lang` of the closest ancestor that has one.
+   */
+  @property()
+  locale?: string
+
+  /**
+   * How the slotted suggestions are filtered as the user types. `none` leaves the
+   * filtering up to the developer, `prefix` shows suggestions starting with the typed
+   * text, `substring` those containing it, and `fuzzy` those containing all typed
+   * characters in order.
+   */
+  @property()
+  filter: FilterMode = 'none'
+
+  /**
+   * A custom function deciding which suggestions match the typed text. Takes precedence
+   * over the built in `filter` modes when provided.
+   */
+  @property({attribute: false})
+  matcher?: Matcher
+
+  /**
+   * Shows the suggestion list in the top layer, above everything else on the page, in
+   * browsers supporting the popover API.
+   */
+  @property({type: Boolean, attribute: 'top-layer'})
+  topLayer = false
+
+  /**
+   * Below this viewport width, in pixels, the open suggestion list is shown as a sheet
+   * filling the screen below the input, which is scrolled to the top of the screen to
+   * leave as much room as possible. Zero never shows the sheet.
+   */
+  @property({type: Number, attribute: 'sheet-breakpoint'})
+  sheetBreakpoint = 0
+
+  /**
+   * Suggestions to render as options after any slotted suggestions. Replaced with the
+   * results of the data source when there is one.
+   */
+  @property({attribute: false})
+  items: Array<unknown> = []
+
+  /**
+   * Reads the value of an item, submitted with the form when it is committed.
+   */
+  @property({attribute: 'item-value'})
+  itemValue: ItemAccessor<string> = 'value'
+
+  /**
+   * Reads the label of an item, shown to the user and matched against what they type.
+   */
+  @property({attribute: 'item-label'})
+  itemLabel: ItemAccessor<string> = 'label'
+
+  /**
+   * Reads whether an item is disabled and can't be selected.
+   */
+  @property({attribute: 'item-disabled'})
+  itemDisabled: ItemAccessor<boolean> = 'disabled'
+
+  /**
+   * Reads the secondary text of an item, shown beneath its label.
+   */
+  @property({attribute: 'item-description'})
+  itemDescription: ItemAccessor<string> = 'description'
+
+  /**
+   * Renders the content of each item's option, in place of its label.
+   */
+  @property({attribute: false})
+  renderItem?: ItemRenderer
+
+  /**
+   * Offers to create a new option from the typed text when it doesn't match any of the
+   * suggestions.
+   */
+  @property({type: Boolean, attribute: 'allow-create'})
+  allowCreate = false
+
+  /**
+   * How many of the most recently committed options to remember and offer again when
+   * the input is empty. Zero turns the history off.
+   */
+  @property({type: Number})
+  history = 0
+
+  /**
+   * The id of a datalist to take the options from, like the `list` attribute of a
+   * native input. A select slotted into the combo box is used before it.
+   */
+  @property()
+  list?: string
+
+  /**
+   * The key the history is kept under, so that combo boxes for the same kind of value
+   * can share it. Defaults to the combo box's `name`.
+   */
+  @property({attribute: 'history-key'})
+  historyKey?: string
+
+  /**
+   * Where the history is kept, `localStorage` unless another storage is provided.
+   */
+  @property({attribute: false})
+  historyStorage?: HistoryStorage
+
+  /**
+   * Only render the options for items scrolled into view, for sets of items too large
+   * to render all at once.
+   */
+  @property({type: Boolean, reflect: true})
+  virtual = false
+
+  /**
+   * The height in pixels each item option is rendered at in virtual mode.
+   */
+  @property({type: Number, attribute: 'item-height'})
+  itemHeight = 36
+
+  /**
+   * How many options to render either side of those in view in virtual mode, so that
+   * scrolling doesn't reveal options before they are rendered.
+   */
+  @property({type: Number})
+  overscan = 5
+
+  /**
+   * A function called with the typed text that resolves to the suggestions to show.
+   * Takes the place of slotting li elements for suggestions that come from a server.
+   */
+  @property({attribute: false})
+  dataSource?: DataSource
+
+  /**
+   * How many milliseconds to wait after the user stops typing before calling the
+   * data source.
+   */
+  @property({type: Number, attribute: 'data-source-debounce'})
+  dataSourceDebounce = 250
+
+  /**
+   * Whether the data source is currently fetching suggestions.
+   */
+  @property({type: Boolean, reflect: true})
+  loading = false
+
+  /**
+   * The error the last data source call was rejected with, if it failed.
+   */
+  @property({attribute: false})
+  error?: unknown
+
+  /**
+   * Overrides which state the suggestion list shows, for developers loading
+   * suggestions themselves. Left unset, it follows `loading`, `error` and whether any
+   * suggestions match what was typed.
+   */
+  @property({reflect: true})
+  state?: SuggestionListState
+
+  /**
+   * Allows the user to choose more than one option, each shown as a removable chip.
+   */
+  @property({type: Boolean, reflect: true})
+  multiple = false
+
+  @query('input')
+  inputElement?: HTMLInputElement
+
+  @query('#combo-box-suggestion-list')
+  suggestionListElement?: HTMLUListElement
+
+  @queryAssignedElements({flatten: true})
+  private assignedElements!: Array<HTMLElement>
+
+  constructor() {
     super()
 
+    // Rendering on the server happens without element internals
+    if (
+      typeof window !== 'undefined' &&
+      'ElementInternals' in window &&
+      'setFormValue' in window.ElementInternals.prototype
+    ) {
+      this.formInternals = this.attachInternals()
+    }
+  }
+
+  override addEventListener<K extends keyof ComboBoxEventMap>(
+    type: K,
+    listener: (this: ComboBox, e: ComboBoxEventMap[K]) => unknown,
+    options?: boolean | AddEventListenerOptions
+  ): void
+  override addEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (this: ComboBox, e: HTMLElementEventMap[K]) => unknown,
+    options?: boolean | AddEventListenerOptions
+  ): void
+  override addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void
+  override addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ) {
+    super.addEventListener(type, listener, options)
+  }
+
+  override removeEventListener<K extends keyof ComboBoxEventMap>(
+    type: K,
+    listener: (this: ComboBox, e: ComboBoxEventMap[K]) => unknown,
+    options?: boolean | EventListenerOptions
+  ): void
+  override removeEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (this: ComboBox, e: HTMLElementEventMap[K]) => unknown,
+    options?: boolean | EventListenerOptions
+  ): void
+  override removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void
+  override removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ) {
+    super.removeEventListener(type, listener, options)
+  }
+
+  /**
+   * The slotted groups of options.
+   */
+  private get groupElements(): Array<HTMLElement> {
+    return this.assignedElements.filter((element) =>
+      element.matches(GROUP_SELECTOR)
+    )
+  }
+
+  /**
+   * Every slotted option, including those within groups and those that are disabled
+   * or hidden.
+   */
+  private get optionElements(): Array<HTMLLIElement> {
+    return this.assignedElements.flatMap((element) => {
+      if (
+        element instanceof HTMLSelectElement ||
+        element instanceof HTMLDataListElement
+      ) {
+        return []
+      }
+      return element.matches(GROUP_SELECTOR)
+        ? (Array.from(element.children) as Array<HTMLLIElement>)
+        : [element as HTMLLIElement]
+    })
+  }
+
+  /**
+   * The slotted native select the options are created from, if any.
+   */
+  private get nativeSelect() {
+    return this.nativeOptionSource instanceof HTMLSelectElement
+      ? this.nativeOptionSource
+      : undefined
+  }
+
+  /**
+   * The slotted options that can currently be selected, skipping those that are
+   * disabled, hidden, or within a hidden group.
+   */
+  private get slottedItemElements(): Array<HTMLLIElement> {
+    return this.optionElements.filter(
+      (element) =>
+        !element.hasAttribute('disabled') &&
+        !element.hidden &&
+        !(element.parentElement as HTMLElement).hidden
+    )
+  }
+
+  /**
+   * All selectable suggestions, slotted by the developer or rendered from the data
+   * source, in the order they are shown.
+   */
+  get suggestionItemElements(): Array<HTMLLIElement> {
+    const historyElements =
+      this.shadowRoot?.querySelectorAll<HTMLLIElement>('.history-option') ?? []
+    const renderedItemElements =
+      this.shadowRoot?.querySelectorAll<HTMLLIElement>(
+        '.option:not([disabled]):not(.history-option)'
+      ) ?? []
+    return [
+      ...historyElements,
+      ...this.slottedItemElements,
+      ...renderedItemElements,
+    ]
+  }
+
+  /**
+   * The values of the options chosen by the user in multiple mode. Setting them commits
+   * those options without firing any events.
+   */
+  get values(): Array<string> {
+    return this.chosenItems.map((item) => item.value)
+  }
+
+  set values(values: Array<string>) {
+    this.commitValues(values)
+  }
+
+  /**
+   * The committed option, or in multiple mode the first of the chosen options. Null
+   * when nothing is committed or the committed value isn't among the options.
+   */
+  get selectedOption(): HTMLElement | null {
+    const value = this.values[0]
+    if (value === undefined) return null
+    return (
+      this.allOptionElements.find((option) => option.dataset.value === value) ??
+      null
+    )
+  }
+
+  get form() {
+    return this.formInternals?.form ?? null
+  }
+
+  get validity() {
+    return this.formInternals?.validity
+  }
+
+  get validationMessage() {
+    return this.formInternals?.validationMessage ?? ''
+  }
+
+  get willValidate() {
+    return this.formInternals?.willValidate ?? false
+  }
+
+  checkValidity() {
+    return this.formInternals?.checkValidity() ?? true
+  }
+
+  reportValidity() {
+    return this.formInternals?.reportValidity() ?? true
+  }
+
+  /**
+   * Opens the suggestion list, unless the combo box is disabled or read only.
+   */
+  show() {
+    if (this.isDisabled || this.readonly) return
+    this.expandSuggestionList()
+  }
+
+  /**
+   * Closes the suggestion list.
+   */
+  hide() {
+    this.collapseSuggestionList()
+  }
+
+  /**
+   * Clears the input and every committed option, firing `clear`, and `change` if
+   * anything had been committed.
+   */
+  clear() {
+    this.setInputText('')
+    this.inlineCompletionTypedText = null
+    this.filterSuggestionElements('')
+    this.setChosenItems([])
+    this.dispatchEvent(new AnacapriEvent<null>('clear'))
+  }
+
+  /**
+   * Commits the option with the given value without firing any events, as when the
+   * value is set from code. In multiple mode the option is added to those already
+   * chosen, otherwise its label is filled into the input.
+   *
+   * @param value The value of the option to commit
+   * @returns Whether an option with the value was found
+   */
+  selectByValue(value: string) {
+    const item = this.findItemByValue(value)
+    if (!item) return false
+    if (this.multiple) {
+      if (!this.values.includes(value)) {
+        this.chosenItems = [...this.chosenItems, item]
+      }
+    } else {
+      this.setInputText(item.label)
+      this.chosenItems = [item]
+    }
+    this.updateFormValue()
+    return true
+  }
+
+  /**
+   * Called by the browser when the owning form is reset. Commits the initial value
+   * again, or clears the committed options and the input if there wasn't one.
+   */
+  formResetCallback() {
+    const defaultValue = this.getAttribute('value')
+    this.setInputText('')
+    this.commitValues(defaultValue ? [defaultValue] : [])
+    if (this.nativeSelect && !defaultValue) {
+      this.commitDefaultSelectedOptions(this.nativeSelect)
+      this.updateFormValue()
+    }
+  }
+
+  /**
+   * Called by the browser when a fieldset ancestor is disabled or enabled.
+   *
+   * @param disabled Whether the combo box is now disabled by its ancestors
+   */
+  formDisabledCallback(disabled: boolean) {
+    this.formDisabled = disabled
+    if (disabled) {
+      this.collapseSuggestionList()
+    }
+  }
+
+  /**
+   * Called by the browser when restoring the form after navigating back or forward, or
+   * when autofilling. Restored state is the committed options and typed text stored
+   * alongside the form value, whereas an autofilled value is just put into the input.
+   *
+   * @param state The state stored by `updateFormValue`, or the autofilled value
+   * @param mode Whether the browser is restoring or autofilling
+   */
+  formStateRestoreCallback(
+    state: string | File | FormData | null,
+    mode: 'restore' | 'autocomplete'
+  ) {
+    if (typeof state !== 'string') return
+    if (mode === 'autocomplete') {
+      this.setInputText(state)
+      this.updateValidity()
+      return
+    }
+
+    try {
+      const {items, text} = JSON.parse(state) as {
+        items: ComboBoxItem[]
+        text: string
+      }
+      this.chosenItems = items
+      this.setInputText(text)
+      this.updateFormValue()
+    } catch {
+      // State from an older version of the combo box, leave the field as it is
+    }
+  }
+
+  /**
+   * Whether the combo box is disabled, either directly or by a disabled fieldset.
+   */
+  private get isDisabled() {
+    return this.disabled || this.formDisabled
+  }
+
+  /**
+   * Every suggestion, including the disabled and filtered out ones.
+   */
+  private get allOptionElements(): Array<HTMLLIElement> {
+    const renderedOptionElements =
+      this.shadowRoot?.querySelectorAll<HTMLLIElement>('.option') ?? []
+    return [...this.optionElements, ...renderedOptionElements]
+  }
+
+  /**
+   * Prepares the options of a group when they change. Added as the combo box is
+   * connected, since the server has no events to listen to.
+   */
+  private handleGroupChange = () => this.prepareSuggestionElements()
+
+  override connectedCallback() {
+    super.connectedCallback()
+    this.addEventListener('combo-box-group-change', this.handleGroupChange)
+    if (this.hasUpdated) {
+      this.syncNativeOptionSource()
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback()
+    this.removeEventListener('combo-box-group-change', this.handleGroupChange)
+    this.nativeOptionObserver?.disconnect()
+    this.nativeOptionSource = null
+    this.cancelFetchSuggestions()
+    window.clearTimeout(this.announcementTimeout)
+  }
+
+  /**
+   * Keeps the selected item selected when the items are replaced, if it is still among
+   * them. Otherwise the selection is dropped and the list scrolled back to the top. Also
+   * filters the suggestions by the text the developer has set when controlled, and
+   * fills in the label of an item given by the initial value, which can be done on the
+   * server already.
+   */
+  override willUpdate(changedProperties: Map<PropertyKey, unknown>) {
+    if (!this.hasUpdated && this.value && !this.inputValue && !this.multiple) {
+      this.inputValue = this.findItemByValue(this.value)?.label ?? ''
+    }
+    if (
+      changedProperties.has('dataSource') &&
+      changedProperties.get('dataSource') !== undefined
+    ) {
+      this.cancelFetchSuggestions()
+    }
+    if (
+      this.controlled &&
+      changedProperties.has('inputValue') &&
+      changedProperties.get('inputValue') !== undefined
+    ) {
+      this.applyQuery(this.inputValue)
+    }
+    if (changedProperties.has('items')) {
+      const selectedValue =
+        this.selectedItemIndex >= 0
+          ? this.selectedSuggestion?.dataset.value
+          : undefined
+      this.deselectSuggestion()
+      this.selectedItemIndex =
+        selectedValue === undefined
+          ? -1
+          : this.items.findIndex(
+              (item) => this.getItemValue(item) === selectedValue
+            )
+      if (this.selectedItemIndex === -1) {
+        this.listScrollTop = 0
+        if (this.suggestionListElement) {
+          this.suggestionListElement.scrollTop = 0
+        }
+      }
+    }
+  }
+
+  /**
+   * Renders again with the locale of the closest `lang` attribute, which can only be
+   * found once in the document. The first render matches one made on the server,
+   * so that it can be hydrated.
+   */
+  override firstUpdated() {
+    if (!this.locale && this.closest('[lang]')) {
+      this.requestUpdate()
+    }
+  }
+
+  override updated(changedProperties: Map<PropertyKey, unknown>) {
+    // Read before anything below commits options and brings the value in step
+    const requestedValue =
+      changedProperties.has('value') &&
+      (changedProperties.get('value') !== undefined || this.value !== '') &&
+      this.value !== (this.values[0] ?? '')
+        ? this.value
+        : undefined
+    if (
+      changedProperties.has('filter') ||
+      changedProperties.has('matcher') ||
+      changedProperties.has('locale')
+    ) {
+      this.filterSuggestionElements()
+    }
+    if (this.multiple) {
+      this.markChosenSuggestions()
+    }
+    if (
+      changedProperties.has('required') ||
+      changedProperties.has('strict') ||
+      changedProperties.has('name') ||
+      changedProperties.has('messages') ||
+      changedProperties.has('locale')
+    ) {
+      this.updateFormValue()
+    }
+    if (changedProperties.has('disabled') && this.disabled) {
+      this.collapseSuggestionList()
+    }
+    if (
+      changedProperties.has('selectedSuggestion') &&
+      (changedProperties.get('selectedSuggestion') ?? null) !==
+        (this.selectedSuggestion ?? null)
+    ) {
+      const target = this.selectedSuggestion ?? null
+      const event = new AnacapriEvent<ComboBoxHighlightDetail>('highlight', {
+        cancelable: false,
+        detail: {target, value: target?.dataset.value, id: target?.id},
+      })
+      this.dispatchEvent(event)
+    }
+    if (
+      changedProperties.has('open') &&
+      changedProperties.get('open') !== undefined
+    ) {
+      const event = new AnacapriEvent<null>(this.open ? 'open' : 'close', {
+        cancelable: false,
+      })
+      this.dispatchEvent(event)
+    }
+    if (changedProperties.has('isSheet')) {
+      this.toggleAttribute('sheet', this.isSheet)
+      if (this.isSheet) {
+        this.scrollIntoView({block: 'start'})
+      }
+    }
+    if (changedProperties.has('open')) {
+      if (this.open && !this.suggestionListAbortController) {
+        this.expandSuggestionList()
+      } else if (!this.open && this.suggestionListAbortController) {
+        this.collapseSuggestionList()
+      }
+    }
+    // A virtual item scrolled out of view is brought back by its index below
+    if (
+      this.selectedSuggestion &&
+      !this.selectedSuggestion.isConnected &&
+      this.selectedItemIndex < 0
+    ) {
+      this.deselectSuggestion()
+    }
+    if (this.selectedItemIndex >= 0) {
+      const element = this.getItemElement(this.selectedItemIndex)
+      if (element && element !== this.selectedSuggestion) {
+        this.selectSuggestion(element, false)
+      }
+    }
+    if (this.open) {
+      this.positionSuggestionList()
+    }
+    if (
+      changedProperties.has('items') ||
+      changedProperties.has('error') ||
+      changedProperties.has('state') ||
+      (changedProperties.has('open') && this.open)
+    ) {
+      this.announceSuggestionCount()
+    }
+    if (changedProperties.has('open') || changedProperties.has('topLayer')) {
+      this.toggleSuggestionListPopover()
+    }
+    if (changedProperties.has('list')) {
+      this.syncNativeOptionSource()
+    }
+    // Storage is only read in the browser, so the history is loaded once rendered
+    if (
+      changedProperties.has('history') ||
+      changedProperties.has('historyKey') ||
+      changedProperties.has('historyStorage') ||
+      changedProperties.has('name')
+    ) {
+      this.loadHistory()
+    }
+    if (requestedValue !== undefined) {
+      this.commitValues(requestedValue ? [requestedValue] : [])
+    }
+    if (changedProperties.has('dataSourceDebounce')) {
+      this.debouncedFetchSuggestions = debounce(
+        (query: string) => this.fetchSuggestions(query),
+        this.dataSourceDebounce
+      )
+    }
+  }
+
+  override render() {
+    return html`
+      ${this.multiple ? this.renderChips() : nothing}
+      <input
+        part="input"
+        role="combobox"
+        aria-label="${ifDefined(this.label)}"
+        aria-autocomplete="${this.autocomplete}"
+        aria-haspopup="listbox"
+        aria-expanded="${this.open}"
+        aria-controls="combo-box-suggestion-list"
+        aria-activedescendant="${ifDefined(this.selectedSuggestion?.id)}"
+        aria-required="${this.required}"
+        ?disabled=${this.isDisabled}
+        ?readonly=${this.readonly}
+        @focus=${this.handleFocusInput}
+        @blur=${this.handleBlurInput}
+        @input=${this.handleInput}
+        @compositionend=${this.handleCompositionEnd}
+        @keydown=${this.handleKeyboardNavigation}
+        .value=${live(this.inputValue)}
+      />
+      <div part="indicator" class="input-indicator">
+        ${this.shouldShowClearButton ? this.renderClearButton() : nothing}
+        <slot name="indicator">${this.renderDefaultIndicator()}</slot>
+      </div>
+      <ul
+        part="suggestion-list"
+        id="combo-box-suggestion-list"
+        role="listbox"
+        aria-expanded="${this.open}"
+        aria-busy="${this.listState === 'loading' || this.creating}"
+        aria-multiselectable="${this.multiple}"
+        data-placement="${this.popupPosition?.placement ?? 'bottom'}"
+        popover="${ifDefined(this.isTopLayer ? 'manual' : undefined)}"
+        style=${styleMap(this.getSuggestionListStyles())}
+        @mousedown=${this.handleMouseDownSuggestionList}
+        @scroll=${this.handleScrollSuggestionList}
+      >
+        ${this.shouldShowHistory ? this.renderHistory() : nothing}
+        <slot @slotchange=${this.prepareSuggestionElements}></slot>
+        ${this.virtual
+          ? this.renderVirtualItems()
+          : this.items.map((item, index) => this.renderItemOption(item, index))}
+        ${this.failedCreateText !== null ? this.renderCreateError() : nothing}
+        ${this.shouldOfferCreate ? this.renderCreateOption() : nothing}
+        ${this.renderListState()}
+      </ul>
+      <div
+        part="preview"
+        class="preview"
+        data-placement="${this.popupPosition?.placement ?? 'bottom'}"
+        ?hidden=${!this.shouldShowPreview}
+      >
+        <slot name="preview" @slotchange=${this.handleSlotChangePreview}></slot>
+      </div>
+      <div
+        class="visually-hidden"
+        role="status"
+        aria-live="polite"
+        aria-atomic="true"
+      >
+        ${this.announcement}
+      </div>
+    `
+  }
+
+  /**
+   * The height available to the suggestion list while expanded, and its coordinates when
+   * it is shown in the top layer rather than positioned against the combo box.
+   */
+  private getSuggestionListStyles() {
+    const position = this.popupPosition
+    if (!this.open || !position) return {}
+    const styles: Record<string, string> = {
+      '--combo-box-available-height': `${position.availableHeight}px`,
+    }
+    if (this.isSheet) {
+      styles.height = `${position.availableHeight}px`
+    }
+    if (this.isTopLayer || this.isSheet) {
+      if (position.top !== undefined) styles.top = `${position.top}px`
+      if (position.bottom !== undefined) styles.bottom = `${position.bottom}px`
+      styles.left = `${position.left}px`
+      styles.width = `${position.width}px`
+    }
+    return styles
+  }
+
+  /**
+   * Whether the preview pane is shown, which needs something slotted into it and an
+   * option selected in the open suggestion list. There's no room beside a sheet.
+   */
+  private get shouldShowPreview() {
+    return (
+      this.hasPreview &&
+      this.open &&
+      !this.isSheet &&
+      Boolean(this.selectedSuggestion)
+    )
+  }
+
+  private handleSlotChangePreview(e: Event) {
+    this.hasPreview = (e.target as HTMLSlotElement).assignedNodes().length > 0
+  }
+
+  /**
+   * Whether the suggestion list is shown in the top layer, which is only possible in
+   * browsers supporting the popover API. Never for the first render, so that it
+   * matches one made on the server.
+   */
+  private get isTopLayer() {
+    return (
+      this.topLayer && this.hasUpdated && 'showPopover' in HTMLElement.prototype
+    )
+  }
+
+  /**
+   * An option for one of the items. In virtual mode the option is given a fixed height
+   * and its position within the full set of items, as most of them aren't rendered.
+   *
+   * @param item The item to render
+   * @param index The index of the item within items
+   */
+  private renderItemOption(item: unknown, index: number) {
+    const label = this.getItemLabel(item)
+    const description = this.getItemDescription(item)
+    const disabled = this.isItemDisabled(item)
+    return html`
+      <li
+        part="option"
+        class="option"
+        id="option-${index}"
+        role="option"
+        aria-selected="false"
+        aria-disabled="${disabled ? 'true' : 'false'}"
+        aria-setsize="${ifDefined(
+          this.virtual ? this.items.length : undefined
+        )}"
+        aria-posinset="${ifDefined(this.virtual ? index + 1 : undefined)}"
+        data-value="${this.getItemValue(item)}"
+        data-label="${label}"
+        data-index="${index}"
+        style=${styleMap({
+          height: this.virtual ? `${this.itemHeight}px` : undefined,
+        })}
+        ?disabled=${disabled}
+      >
+        ${this.renderItem
+          ? this.renderItem(item, index)
+          : description
+          ? html`<span part="option-label" class="option-label">${label}</span>
+              <span part="option-description" class="option-description"
+                >${description}</span
+              >`
+          : label}
+      </li>
+    `
+  }
+
+  /**
+   * The option offering to create a new option from the typed text.
+   */
+  private renderCreateOption() {
+    return html`
+      <li
+        part="option create-option"
+        class="option create-option"
+        id="create-option"
+        role="option"
+        aria-selected="false"
+        data-value="${this.inputValue.trim()}"
+      >
+        ${this.resolvedMessages.createOption(this.inputValue.trim())}
+      </li>
+    `
+  }
+
+  /**
+   * Renders the row letting the user know the option they chose to create couldn't be,
+   * above the option offering to try again.
+   */
+  private renderCreateError() {
+    return html`
+      <li part="create-error" class="list-state" role="presentation">
+        ${this.resolvedMessages.createFailed(this.failedCreateText ?? '')}
+      </li>
+    `
+  }
+
+  private renderHistory() {
+    const messages = this.resolvedMessages
+    return html`
+      <li
+        part="history"
+        class="history"
+        role="group"
+        aria-labelledby="history-label"
+      >
+        <div part="history-label" class="history-label" id="history-label">
+          ${messages.recent}
+        </div>
+        <ol role="presentation">
+          ${this.historyEntries.map(
+            (entry, index) => html`
+              <li
+                part="option history-option"
+                class="option history-option"
+                id="history-${index}"
+                role="option"
+                aria-selected="false"
+                data-value="${entry.value}"
+                data-label="${entry.label}"
+              >
+                ${entry.label}
+                <button
+                  part="history-remove"
+                  class="history-remove"
+                  type="button"
+                  tabindex="-1"
+                  aria-label="${messages.removeHistoryEntry(entry.label)}"
+                  @mousedown=${(e: MouseEvent) => e.preventDefault()}
+                  @click=${(e: MouseEvent) => {
+                    e.stopPropagation()
+                    this.removeHistoryEntry(entry.value)
+                  }}
+                >
+                  ×
+                </button>
+              </li>
+            `
+          )}
+        </ol>
+      </li>
+    `
+  }
+
+  /**
+   * The history is offered in place of suggestions for typed text, so only while the
+   * input is empty.
+   */
+  private get shouldShowHistory() {
+    return this.historyEntries.length > 0 && this.inputValue === ''
+  }
+
+  /**
+   * Renders the row for the suggestion list's state, with the slot the developer can
+   * replace its message through.
+   */
+  private renderListState() {
+    const state = this.listState
+    if (state === 'idle') return nothing
+    const messages = this.resolvedMessages
+    const defaultMessage = {
+      loading: messages.loading,
+      error: messages.loadingFailed,
+      empty: messages.noResults,
+    }[state]
+    return html`
+      <li part="${state}" class="list-state" role="presentation">
+        <slot name="${state}">${defaultMessage}</slot>
+      </li>
+    `
+  }
+
+  /**
+   * The state the suggestion list is in, either as set by the developer or worked out
+   * from the data source and the suggestions matching what was typed.
+   */
+  private get listState(): SuggestionListState {
+    if (this.state) return this.state
+    if (this.loading) return 'loading'
+    if (this.error !== undefined) return 'error'
+    // Slotted options can't be counted until rendered, as on the server
     if (
-      'ElementInternals' in window &&
-      'setFormValue' in window.ElementInternals.prototype
+      this.hasUpdated &&
+      this.inputValue.trim() &&
+      this.suggestionCount === 0
     ) {
-      this.formInternals = this.attachInternals()
+      return 'empty'
     }
+    return 'idle'
   }
 
-  override render() {
+  /**
+   * The number of suggestions that can be navigated to, including those from items
+   * that haven't been rendered yet.
+   */
+  private get suggestionCount() {
+    return (
+      this.slottedItemElements.length +
+      this.items.filter((item) => !this.isItemDisabled(item)).length +
+      (this.shouldOfferCreate ? 1 : 0) +
+      (this.shouldShowHistory ? this.historyEntries.length : 0)
+    )
+  }
+
+  /**
+   * The locale the combo box is in, from the `locale` property or else the closest
+   * `lang` attribute. Undefined leaves it up to the browser.
+   */
+  private get resolvedLocale() {
+    if (this.locale || !this.hasUpdated) return this.locale || undefined
+    return this.closest('[lang]')?.getAttribute('lang') || undefined
+  }
+
+  /**
+   * The messages for the locale with any overrides from the developer applied.
+   */
+  private get resolvedMessages(): ComboBoxMessages {
+    return {...getMessages(this.resolvedLocale), ...this.messages}
+  }
+
+  /**
+   * Whether to offer creating an option from the typed text, which is only the case
+   * when no suggestion already has it as its label.
+   */
+  private get shouldOfferCreate() {
+    const text = this.inputValue.trim()
+    if (!this.allowCreate || !text || this.creating) return false
+    const collator = getCollator(this.resolvedLocale)
+    const matchesItem = this.items.some(
+      (item) => collator.compare(this.getItemLabel(item), text) === 0
+    )
+    const matchesOption = this.optionElements.some(
+      (element) => collator.compare(this.getOptionLabel(element), text) === 0
+    )
+    return !matchesItem && !matchesOption
+  }
+
+  /**
+   * The options for the items in and around the visible part of the suggestion list,
+   * with spacers either side taking up the height of the items that aren't rendered.
+   * Options are keyed by index so that an option keeps its element, and with it its
+   * selection, as the window moves.
+   */
+  private renderVirtualItems() {
+    const {start, end} = this.getVirtualWindow()
     return html`
-      <input
-        part="input"
-        role="combobox"
-        aria-label="${ifDefined(this.label)}"
-        aria-autocomplete="list"
-        aria-haspopup="listbox"
-        aria-controls="combo-box-suggestion-list"
-        aria-activedescendant="${ifDefined(this.selectedSuggestion?.id)}"
-        @focus=${this.handleFocusInput}
-        @input=${this.handleInput}
-        @keydown=${this.handleKeyboardNavigation}
-        .value=${this.value}
-      />
-      <div class="input-indicator">
-        <slot name="indicator"></slot>
-      </div>
-      <ul
-        part="suggestion-list"
-        id="combo-box-suggestion-list"
-        role="listbox"
-        aria-expanded="${this.isExpanded}"
+      <li
+        class="virtual-spacer"
+        role="presentation"
+        style=${styleMap({height: `${start * this.itemHeight}px`})}
+      ></li>
+      ${repeat(
+        this.items.slice(start, end),
+        (_item, index) => start + index,
+        (item, index) => this.renderItemOption(item, start + index)
+      )}
+      <li
+        role="presentation"
+        style=${styleMap({
+          height: `${(this.items.length - end) * this.itemHeight}px`,
+        })}
+      ></li>
+    `
+  }
+
+  /**
+   * The range of item indexes to render in virtual mode, based on how far the list is
+   * scrolled. Before the list has been measured, enough items to fill ten rows are
+   * rendered.
+   *
+   * @returns The index of the first item to render, and the index after the last
+   */
+  private getVirtualWindow() {
+    const viewportHeight = this.listHeight || this.itemHeight * 10
+    const scrolled = Math.max(0, this.listScrollTop - this.itemsOffsetTop)
+    const start = Math.max(
+      0,
+      Math.floor(scrolled / this.itemHeight) - this.overscan
+    )
+    const end = Math.min(
+      this.items.length,
+      Math.ceil((scrolled + viewportHeight) / this.itemHeight) + this.overscan
+    )
+    return {start, end}
+  }
+
+  /**
+   * A chip for every chosen option in multiple mode. The remove buttons are left out of
+   * the tab order as Backspace in the input removes chips from the keyboard.
+   */
+  private renderChips() {
+    return this.chosenItems.map(
+      (item) => html`
+        <span part="chip" class="chip">
+          ${item.label}
+          <button
+            part="chip-remove"
+            type="button"
+            tabindex="-1"
+            aria-label="${this.resolvedMessages.removeChip(item.label)}"
+            ?disabled=${this.isDisabled || this.readonly}
+            @click=${() => this.removeChosenItem(item.value)}
+          >
+            ×
+          </button>
+        </span>
+      `
+    )
+  }
+
+  /**
+   * The button clearing the combo box when it's `clearable` and not empty.
+   */
+  private renderClearButton() {
+    return html`
+      <button
+        part="clear-button"
+        class="clear-button"
+        type="button"
+        tabindex="-1"
+        aria-label="${this.resolvedMessages.clear}"
+        @mousedown=${(e: MouseEvent) => e.preventDefault()}
+        @click=${this.handleClickClearButton}
       >
-        <slot @slotchange=${this.prepareSuggestionElements}></slot>
-      </ul>
+        ×
+      </button>
     `
   }
 
+  private get shouldShowClearButton() {
+    return (
+      this.clearable &&
+      !this.isDisabled &&
+      !this.readonly &&
+      (this.inputValue !== '' || this.chosenItems.length > 0)
+    )
+  }
+
+  /**
+   * Clears the combo box, or when controlled asks the developer to by firing `clear`.
+   */
+  private handleClickClearButton() {
+    if (this.controlled) {
+      this.dispatchEvent(new AnacapriEvent<null>('clear'))
+    } else {
+      this.clear()
+    }
+    this.inputElement?.focus()
+  }
+
   /**
-   * Expands the suggestion list on focus if there are items to show.
+   * The indicator shown when the developer hasn't slotted one of their own, reflecting
+   * the state of the data source or of creating an option.
+   */
+  private renderDefaultIndicator() {
+    if (this.listState === 'loading' || this.creating) {
+      return html`<span part="spinner" class="spinner"></span>`
+    }
+    if (this.listState === 'error' || this.failedCreateText !== null) {
+      return html`<span part="error-indicator" aria-hidden="true">!</span>`
+    }
+    return nothing
+  }
+
+  /**
+   * Expands the suggestion list on focus if there are items to show, unless the
+   * suggestions are only offered inline.
    */
   private handleFocusInput() {
-    if (this.suggestionItemElements.length > 0) {
+    if (this.readonly || this.autocomplete === 'inline') return
+    this.loadHistory()
+    if (
+      this.suggestionItemElements.length > 0 ||
+      this.listState !== 'idle' ||
+      this.shouldShowHistory
+    ) {
       this.expandSuggestionList()
     }
   }
 
+  /**
+   * Reverts any uncommitted text in select-only mode when the user leaves the field.
+   */
+  private handleBlurInput() {
+    if (this.mode === 'select-only') {
+      this.revertInput()
+    }
+  }
+
+  /**
+   * Keeps focus in the input while the user is pressing on a suggestion, so that
+   * leaving the field isn't mistaken for abandoning the selection.
+   *
+   * @param e the mouse down event on the suggestion list
+   */
+  private handleMouseDownSuggestionList(e: MouseEvent) {
+    e.preventDefault()
+  }
+
   /**
    * Stops the propagation of the input event and creates own event to pass input value.
    * This seems a bit strange, but if we don't do this the listener event object will
@@ -235,13 +2045,136 @@ export class ComboBox extends LitElement {
   private handleInput(e: InputEvent) {
     e.stopPropagation()
     const target = e.target as HTMLInputElement
-    this.expandSuggestionList()
-    const event = new AnacapriEvent('input', {
+    if (this.autocomplete !== 'inline') {
+      this.expandSuggestionList()
+    }
+    this.handleQueryChange(target.value)
+
+    const isDeleting = e.inputType?.startsWith('delete')
+    if (
+      this.autocomplete !== 'list' &&
+      !this.controlled &&
+      !isDeleting &&
+      !e.isComposing
+    ) {
+      this.completeInline()
+    }
+    this.updateValidity()
+  }
+
+  /**
+   * Filters or fetches the suggestions for the text now in the input, and lets the
+   * developer know what has been typed. When controlled, the input goes back to
+   * `inputValue` unless the developer changes it in response.
+   *
+   * @param text The text in the input
+   */
+  private handleQueryChange(text: string) {
+    if (!this.controlled) {
+      this.inputValue = text
+      this.applyQuery(text)
+    }
+    const event = new AnacapriEvent<ComboBoxInputDetail>('input', {
       detail: {
-        value: target.value,
+        value: text,
       },
     })
     this.dispatchEvent(event)
+    if (this.controlled) {
+      this.requestUpdate()
+    }
+  }
+
+  /**
+   * Filters or fetches the suggestions for the text, announcing how many there are.
+   *
+   * @param text The text to find suggestions for
+   */
+  private applyQuery(text: string) {
+    this.inlineCompletionTypedText = null
+    this.failedCreateText = null
+    this.filterSuggestionElements(text)
+    if (this.dataSource) {
+      this.dataSourceAbortController?.abort()
+      this.loading = true
+      this.debouncedFetchSuggestions?.(text)
+    }
+    this.announceSuggestionCount()
+  }
+
+  /**
+   * Clears the text typed into the input, as pressing Escape does once the suggestion
+   * list is closed.
+   */
+  private clearInputText() {
+    if (this.readonly || !this.inputElement?.value) return
+    if (!this.controlled) {
+      this.setInputText('')
+    }
+    this.handleQueryChange('')
+    this.updateValidity()
+  }
+
+  /**
+   * Text being composed with an input method isn't completed until the composition is
+   * finished, as changing the input's value would interrupt it.
+   */
+  private handleCompositionEnd() {
+    if (this.autocomplete !== 'list') {
+      this.completeInline()
+      this.updateValidity()
+    }
+  }
+
+  /**
+   * Fills the rest of the first suggestion starting with the typed text into the input
+   * and selects it, so that typing on replaces it. The suggestion is also selected in
+   * the list so that committing accepts it, scrolling to it only when the list is open.
+   */
+  private completeInline() {
+    const input = this.inputElement
+    if (!input || input.selectionEnd !== input.value.length) return
+    const typedText = input.value
+    if (!typedText) return
+
+    const collator = getCollator(this.resolvedLocale)
+    const suggestion = this.suggestionItemElements.find(
+      (element) =>
+        collator.compare(
+          this.getOptionLabel(element).slice(0, typedText.length),
+          typedText
+        ) === 0
+    )
+    if (!suggestion) return
+
+    const label = this.getOptionLabel(suggestion)
+    this.setInputText(typedText + label.slice(typedText.length))
+    input.setSelectionRange(typedText.length, input.value.length)
+    this.inlineCompletionTypedText = typedText
+    this.selectSuggestion(suggestion, this.open)
+  }
+
+  /**
+   * Changes the text in the input from code rather than by the user typing.
+   *
+   * @param text The text to put in the input
+   */
+  private setInputText(text: string) {
+    if (this.inputElement) {
+      this.inputElement.value = text
+    }
+    this.inputValue = text
+  }
+
+  /**
+   * Removes the completed text from the input, leaving only what was typed.
+   */
+  private rejectInlineCompletion() {
+    if (this.inlineCompletionTypedText == null) return
+    this.setInputText(this.inlineCompletionTypedText)
+    this.inlineCompletionTypedText = null
+    this.deselectSuggestion()
+    this.updateValidity()
   }
 
   /**
@@ -253,24 +2186,92 @@ export class ComboBox extends LitElement {
    * @param e keyboard events while focused in the input textbox
    */
   private handleKeyboardNavigation(e: KeyboardEvent) {
-    switch (e.key) {
-      case 'Enter':
+    const action = findKeyboardAction(e, {...defaultKeymap, ...this.keymap})
+    switch (action) {
+      case 'commit':
         e.preventDefault()
+        this.inlineCompletionTypedText = null
         this.commitSelection()
         break
-      case 'ArrowDown':
+      case 'acceptCompletion':
+        this.inlineCompletionTypedText = null
+        break
+      case 'next':
+      case 'previous':
+        e.preventDefault()
+        if (!this.open) {
+          this.expandSuggestionList()
+        }
+        this.navigateSelection(action === 'next' ? 1 : -1)
+        break
+      case 'first':
+      case 'last':
+        if (!this.open) break
+        e.preventDefault()
+        if (action === 'first') {
+          this.jumpSelection(0, 1)
+        } else {
+          this.jumpSelection(Infinity, -1)
+        }
+        break
+      case 'nextPage':
+      case 'previousPage': {
+        if (!this.open) break
+        e.preventDefault()
+        const step = action === 'nextPage' ? 1 : -1
+        this.jumpSelection(
+          this.getSelectedIndex() + step * this.getPageSize(),
+          step
+        )
+        break
+      }
+      case 'open':
         e.preventDefault()
-        this.navigateSelection(1)
+        this.expandSuggestionList()
         break
-      case 'ArrowUp':
+      case 'close':
         e.preventDefault()
-        this.navigateSelection(-1)
+        this.collapseSuggestionList()
         break
-      case 'Escape':
+      case 'dismiss':
+        if (this.inlineCompletionTypedText != null) {
+          this.rejectInlineCompletion()
+          break
+        }
+        if (!this.open) {
+          this.clearInputText()
+          break
+        }
+        if (this.mode === 'select-only') {
+          this.revertInput()
+        }
         this.collapseSuggestionList()
         break
-      case 'Tab':
-        if (this.allowTabNavigation && this.isExpanded) {
+      case 'removeLastChip':
+        if (
+          this.multiple &&
+          !this.readonly &&
+          this.inputElement?.value === '' &&
+          this.chosenItems.length > 0
+        ) {
+          this.removeChosenItem(
+            this.chosenItems[this.chosenItems.length - 1].value
+          )
+        }
+        break
+      case 'removeHistoryEntry':
+        if (this.selectedSuggestion?.classList.contains('history-option')) {
+          e.preventDefault()
+          this.removeHistoryEntry(this.selectedSuggestion.dataset.value ?? '')
+        }
+        break
+      default:
+        // Tab also moves focus out of the combo box, so it's left out of the keymap
+        if (e.key !== 'Tab') break
+        if (this.inlineCompletionTypedText != null) {
+          this.inlineCompletionTypedText = null
+          this.commitSelection()
+        } else if (this.allowTabNavigation && this.open) {
           e.preventDefault()
           if (e.shiftKey) {
             this.navigateSelection(-1)
@@ -280,25 +2281,204 @@ export class ComboBox extends LitElement {
         } else {
           this.collapseSuggestionList()
         }
-        break
-      case 'Shift':
-      case 'Alt':
-      case 'Meta':
-      case 'Ctrl':
-        break
     }
   }
 
+  /**
+   * Works out which side of the input the suggestion list fits on and how much room it
+   * has there. Only updates the position when it has actually changed, as this is called
+   * after every update while the list is expanded.
+   */
+  private positionSuggestionList() {
+    const list = this.suggestionListElement
+    if (!list) return
+    const viewport = window.visualViewport
+    const viewportBottom = viewport
+      ? viewport.offsetTop + viewport.height
+      : window.innerHeight
+    const anchor = this.getBoundingClientRect()
+    this.isSheet = window.innerWidth < this.sheetBreakpoint
+    const position: PopupPosition = this.isSheet
+      ? {
+          placement: 'bottom',
+          availableHeight: Math.max(0, viewportBottom - anchor.bottom),
+          top: anchor.bottom,
+          left: 0,
+          width: window.innerWidth,
+        }
+      : computePopupPosition(anchor, list.scrollHeight, viewportBottom)
+    const previous = this.popupPosition
+    const hasChanged =
+      !previous ||
+      (Object.keys(position) as Array<keyof PopupPosition>).some(
+        (key) => position[key] !== previous[key]
+      )
+    if (hasChanged) {
+      this.popupPosition = position
+    }
+  }
+
+  /**
+   * Shows or hides the suggestion list in the top layer along with its expanded state.
+   */
+  private toggleSuggestionListPopover() {
+    const list = this.suggestionListElement as
+      | (HTMLUListElement & {
+          showPopover(): void
+          hidePopover(): void
+        })
+      | undefined
+    if (!list || !this.isTopLayer) return
+    const isOpen = list.matches(':popover-open')
+    if (this.open && !isOpen) {
+      list.showPopover()
+    } else if (!this.open && isOpen) {
+      list.hidePopover()
+    }
+  }
+
+  /**
+   * Moves the virtual window along with the scroll position of the suggestion list.
+   */
+  private handleScrollSuggestionList() {
+    if (this.virtual) {
+      this.measureSuggestionList()
+    }
+  }
+
+  /**
+   * Measures the suggestion list for working out which items are in view.
+   */
+  private measureSuggestionList() {
+    const list = this.suggestionListElement
+    if (!list) return
+    const spacer = list.querySelector<HTMLElement>('.virtual-spacer')
+    this.itemsOffsetTop = spacer?.offsetTop ?? 0
+    this.listScrollTop = list.scrollTop
+    this.listHeight = list.clientHeight
+  }
+
+  /**
+   * The rendered option for an item, if it is in the virtual window.
+   *
+   * @param index The index of the item within items
+   */
+  private getItemElement(index: number) {
+    return this.shadowRoot?.getElementById(
+      `option-${index}`
+    ) as HTMLLIElement | null
+  }
+
+  /**
+   * Scrolls the suggestion list so that an item's option is in the virtual window, waits
+   * for it to render, then selects it.
+   *
+   * @param index The index of the item within items
+   */
+  private async selectItem(index: number) {
+    const list = this.suggestionListElement
+    if (!list) return
+    const top = this.itemsOffsetTop + index * this.itemHeight
+    if (top < list.scrollTop) {
+      list.scrollTop = top
+    } else if (top + this.itemHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = top + this.itemHeight - list.clientHeight
+    }
+    this.measureSuggestionList()
+    await this.updateComplete
+    const element = this.getItemElement(index)
+    if (element) {
+      this.selectSuggestion(element, false)
+    }
+  }
+
+  /**
+   * Finds the next item that isn't disabled in the direction of the step, wrapping at
+   * the ends if allowNavigationWrap is true.
+   *
+   * @param from The index to step from, -1 if no item is selected
+   * @param step The direction to step in
+   * @returns The index of the next enabled item, or -1 if there isn't one
+   */
+  private findEnabledItemIndex(from: number, step: -1 | 1) {
+    const count = this.items.length
+    let index = from === -1 && step === -1 ? count : from
+    for (let i = 0; i < count; i++) {
+      index += step
+      if (index < 0 || index >= count) {
+        if (!this.allowNavigationWrap) return -1
+        index = (index + count) % count
+      }
+      if (!this.isItemDisabled(this.items[index])) return index
+    }
+    return -1
+  }
+
+  /**
+   * Finds the enabled item closest to an index, looking first in the direction of the
+   * step and then back the other way.
+   *
+   * @param index The index to look from, clamped to the items
+   * @param step The direction to look in first
+   * @returns The index of the enabled item, or -1 if every item is disabled
+   */
+  private findNearestEnabledItemIndex(index: number, step: -1 | 1) {
+    const count = this.items.length
+    const start = Math.max(0, Math.min(count - 1, index))
+    for (const direction of [step, -step]) {
+      for (let i = start; i >= 0 && i < count; i += direction) {
+        if (!this.isItemDisabled(this.items[i])) return i
+      }
+    }
+    return -1
+  }
+
   private handlePointerMoveSelection(e: PointerEvent) {
-    if (!(e.target instanceof Element)) return
+    // A touch only selects the option it taps, as it may be the start of a scroll
+    if (!(e.target instanceof Element) || e.pointerType === 'touch') return
     const target = e.target.closest('[role="option"]') as HTMLLIElement
-    if (!target || (this.pointerX === e.x && this.pointerY === e.y)) return
-    console.log('handle mouse move')
+    // Disabled options have the role too, but can't be selected
+    if (!target || !this.suggestionItemElements.includes(target)) return
+    if (this.pointerX === e.x && this.pointerY === e.y) return
     this.selectSuggestion(target, false)
     this.pointerX = e.x
     this.pointerY = e.y
   }
 
+  private handlePointerDownSuggestionList(e: PointerEvent) {
+    this.touchGesture =
+      e.pointerType === 'touch'
+        ? {x: e.clientX, y: e.clientY, isScroll: false}
+        : null
+  }
+
+  private handleTouchMoveSuggestionList(e: PointerEvent) {
+    const gesture = this.touchGesture
+    if (!gesture || e.pointerType !== 'touch') return
+    if (Math.hypot(e.clientX - gesture.x, e.clientY - gesture.y) > TOUCH_SLOP) {
+      gesture.isScroll = true
+    }
+  }
+
+  /**
+   * Commits the option clicked in the suggestion list, selecting it first if the pointer
+   * hasn't already. Clicks on disabled options or outside any option commit nothing, nor
+   * does a touch that scrolled the list.
+   *
+   * @param e The click on the suggestion list
+   */
+  private handleClickSuggestionList(e: MouseEvent) {
+    const gesture = this.touchGesture
+    this.touchGesture = null
+    if (gesture?.isScroll || !(e.target instanceof Element)) return
+    const target = e.target.closest('[role="option"]') as HTMLLIElement
+    if (!target || !this.suggestionItemElements.includes(target)) return
+    if (target !== this.selectedSuggestion) {
+      this.selectSuggestion(target, false)
+    }
+    this.commitSelection()
+  }
+
   private handleClickEvents(e: MouseEvent) {
     if (e.target && this.contains(e.target as HTMLElement)) {
       this.inputElement?.focus()
@@ -311,11 +2491,19 @@ export class ComboBox extends LitElement {
    * Moves selection of list item elements in the suggested list elements array by
    * the number passed in. If walking off the end of array and allowNavigationWrap
    * is true, we wrap around to zero. The reverse is also true. If allowNavigationWrap
-   * is false, we clamp movement at the ends and do nothing instead.
+   * is false, we clamp movement at the ends and do nothing instead. In virtual mode we
+   * step through the full set of items rather than the rendered options.
    *
    * @param step number to traverse the suggested list elements array by
    */
   private navigateSelection(step: -1 | 1) {
+    if (this.virtual) {
+      const nextIndex = this.findEnabledItemIndex(this.selectedItemIndex, step)
+      if (nextIndex !== -1 && nextIndex !== this.selectedItemIndex) {
+        this.selectItem(nextIndex)
+      }
+      return
+    }
     const currentIndex = this.selectedSuggestion
       ? this.suggestionItemElements.indexOf(this.selectedSuggestion)
       : -1
@@ -335,6 +2523,55 @@ export class ComboBox extends LitElement {
     }
   }
 
+  /**
+   * Moves selection straight to the suggestion at an index, clamping at the ends of the
+   * list rather than wrapping. In virtual mode a disabled item is passed over for the
+   * nearest enabled one in the direction of travel.
+   *
+   * @param index The index to move to, which may be past either end of the list
+   * @param step The direction of travel
+   */
+  private jumpSelection(index: number, step: -1 | 1) {
+    if (this.virtual) {
+      const nextIndex = this.findNearestEnabledItemIndex(index, step)
+      if (nextIndex !== -1 && nextIndex !== this.selectedItemIndex) {
+        this.selectItem(nextIndex)
+      }
+      return
+    }
+    const elements = this.suggestionItemElements
+    const nextElement =
+      elements[Math.max(0, Math.min(elements.length - 1, index))]
+    if (nextElement && nextElement !== this.selectedSuggestion) {
+      this.selectSuggestion(nextElement)
+    }
+  }
+
+  /**
+   * The index of the selected suggestion among those that can be navigated to, or of its
+   * item in virtual mode, -1 if there isn't one.
+   */
+  private getSelectedIndex() {
+    if (this.virtual) return this.selectedItemIndex
+    return this.selectedSuggestion
+      ? this.suggestionItemElements.indexOf(this.selectedSuggestion)
+      : -1
+  }
+
+  /**
+   * The number of suggestions that fit in the suggestion list at once, which Page Up and
+   * Page Down move by.
+   */
+  private getPageSize() {
+    const optionHeight = this.virtual
+      ? this.itemHeight
+      : (this.selectedSuggestion ?? this.suggestionItemElements[0])
+          ?.offsetHeight
+    const listHeight = this.suggestionListElement?.clientHeight ?? 0
+    if (!optionHeight) return 1
+    return Math.max(1, Math.floor(listHeight / optionHeight))
+  }
+
   /**
    * Handles setting the selected suggestion to null and removing accessibility labels,
    * classes, and any other specific state a selected suggestion may have.
@@ -342,9 +2579,12 @@ export class ComboBox extends LitElement {
    * @param suggestion The list item element to deselect, defaults to currently selected suggestion
    */
   private deselectSuggestion(suggestion = this.selectedSuggestion) {
-    suggestion?.setAttribute('aria-selected', 'false')
+    if (!this.multiple) {
+      suggestion?.setAttribute('aria-selected', 'false')
+    }
     suggestion?.classList.remove('selected')
     this.selectedSuggestion = null
+    this.selectedItemIndex = -1
   }
 
   /**
@@ -361,38 +2601,643 @@ export class ComboBox extends LitElement {
     shouldScrollIntoView = true
   ) {
     this.deselectSuggestion()
-    suggestion.setAttribute('aria-selected', 'true')
+    if (!this.multiple) {
+      suggestion.setAttribute('aria-selected', 'true')
+    }
     suggestion.classList.add('selected')
     if (shouldScrollIntoView) {
       suggestion.scrollIntoView()
     }
     this.selectedSuggestion = suggestion
+    this.selectedItemIndex =
+      suggestion.getRootNode() === this.shadowRoot &&
+      suggestion.dataset.index !== undefined
+        ? Number(suggestion.dataset.index)
+        : -1
+  }
+
+  /**
+   * Hides the slotted suggestions that don't match the query and highlights the
+   * matching text of those that do, hiding any group left without suggestions.
+   * Deselects the selected suggestion if it has been filtered out. Does nothing but
+   * undo any previous filtering if neither a filter mode nor a matcher is set.
+   *
+   * @param query The text to match suggestions against, defaults to the input's value
+   */
+  private filterSuggestionElements(
+    query = this.inputElement?.value ?? this.inputValue
+  ) {
+    const matcher =
+      this.matcher ?? createMatchers(this.resolvedLocale)[this.filter]
+    for (const element of this.optionElements) {
+      const matches =
+        !matcher || !query
+          ? true
+          : matcher(this.getOptionLabel(element), query, element)
+      if (matches) {
+        if (this.filteredOutSuggestions.has(element)) {
+          element.hidden = false
+          this.filteredOutSuggestions.delete(element)
+        }
+      } else {
+        element.hidden = true
+        this.filteredOutSuggestions.add(element)
+      }
+      highlightMatches(
+        element,
+        Array.isArray(matches) && element.dataset.label === undefined
+          ? matches
+          : []
+      )
+    }
+
+    for (const group of this.groupElements) {
+      const hasMatches = Array.from(group.children).some(
+        (element) => !(element as HTMLElement).hidden
+      )
+      if (hasMatches) {
+        if (this.filteredOutSuggestions.has(group)) {
+          group.hidden = false
+          this.filteredOutSuggestions.delete(group)
+        }
+      } else if (matcher && query) {
+        group.hidden = true
+        this.filteredOutSuggestions.add(group)
+      }
+    }
+
+    if (
+      this.selectedSuggestion &&
+      !this.suggestionItemElements.includes(this.selectedSuggestion)
+    ) {
+      this.deselectSuggestion()
+    }
+  }
+
+  /**
+   * Cancels the data source call waiting on the debounce and aborts any request in
+   * flight, as once disconnected or given another data source their results are of no
+   * use.
+   */
+  private cancelFetchSuggestions() {
+    this.debouncedFetchSuggestions?.cancel()
+    this.dataSourceAbortController?.abort()
+    this.dataSourceAbortController = null
+    this.loading = false
+  }
+
+  /**
+   * Calls the data source with the query and renders the suggestions it resolves to,
+   * unless another request has been made in the meantime. A failed request clears the
+   * suggestions and keeps hold of the error.
+   *
+   * @param query The text the user has typed
+   */
+  private async fetchSuggestions(query: string) {
+    if (!this.dataSource) return
+    this.dataSourceAbortController?.abort()
+    const controller = new AbortController()
+    this.dataSourceAbortController = controller
+    this.loading = true
+    this.error = undefined
+
+    let items: Array<unknown> = []
+    try {
+      items = await this.dataSource(query, {signal: controller.signal})
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        this.error = error
+      }
+    }
+    if (controller.signal.aborted) return
+
+    this.dataSourceAbortController = null
+    this.loading = false
+    this.items = items
+  }
+
+  /**
+   * Finds the native select slotted into the combo box, or else the datalist named by
+   * `list`, and creates the options from it if it has changed. A select is hidden, its
+   * initially selected options are committed, and its `multiple` is followed.
+   */
+  private syncNativeOptionSource() {
+    const root = this.getRootNode() as Document | ShadowRoot
+    const source =
+      this.assignedElements.find(
+        (element) => element instanceof HTMLSelectElement
+      ) ?? (this.list ? root.getElementById?.(this.list) : null)
+    const nextSource =
+      source instanceof HTMLSelectElement ||
+      source instanceof HTMLDataListElement
+        ? source
+        : null
+    if (nextSource === this.nativeOptionSource) return
+
+    this.nativeOptionObserver?.disconnect()
+    this.nativeOptionSource = nextSource
+    this.renderNativeOptions()
+    if (!nextSource) return
+
+    if (nextSource instanceof HTMLSelectElement) {
+      nextSource.hidden = true
+      if (nextSource.multiple) {
+        this.multiple = true
+      }
+      if (this.chosenItems.length === 0) {
+        this.commitDefaultSelectedOptions(nextSource)
+        this.updateFormValue()
+      }
+    }
+    this.nativeOptionObserver ??= new MutationObserver(() =>
+      this.renderNativeOptions()
+    )
+    this.nativeOptionObserver.observe(nextSource, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      characterData: true,
+    })
+  }
+
+  /**
+   * Replaces the options created from the native select or datalist with new ones
+   * created from its current options.
+   */
+  private renderNativeOptions() {
+    for (const element of Array.from(this.children)) {
+      if (element.hasAttribute(NATIVE_OPTION_ATTRIBUTE)) {
+        element.remove()
+      }
+    }
+    if (this.nativeOptionSource) {
+      this.append(createNativeOptionElements(this.nativeOptionSource))
+    }
+  }
+
+  /**
+   * Commits the options a select starts with selected, without firing any events.
+   *
+   * @param select The select to read the selected options of
+   */
+  private commitDefaultSelectedOptions(select: HTMLSelectElement) {
+    const items = getDefaultSelectedItems(select)
+    this.chosenItems = this.multiple ? items : items.slice(0, 1)
+    if (!this.multiple && items.length > 0) {
+      this.setInputText(items[0].label)
+    }
   }
 
   /**
    * Slotted suggestion elements setup. Add role option to all elements for
-   * accessibility, as well as handles maintaining selection on the last element
-   * selected. Scrolls the selected element into view if it still exists in the list
-   * otherwise scroll back to the top. Uses ids to determine if the elements are the
-   * same, it's important that these are unique.
+   * accessibility, and an id to those without one so they can be the input's active
+   * descendant. Also handles maintaining selection on the last element selected,
+   * recognising it by its id or value if it has been replaced. While open, scrolls the
+   * selected element into view if it still exists in the list otherwise scroll back to
+   * the top.
    */
   private prepareSuggestionElements() {
+    this.syncNativeOptionSource()
     const lastSelectedSuggestion = this.selectedSuggestion
     this.selectedSuggestion = null
+    this.filterSuggestionElements()
 
-    for (const element of this.suggestionItemElements) {
+    for (const element of this.optionElements) {
       element.setAttribute('role', 'option')
+      if (!element.id) {
+        element.id = `${this.idPrefix}-slotted-${this.generatedIdCount++}`
+      }
+    }
+    if (this.multiple) {
+      this.markChosenSuggestions()
+    }
 
-      if (element.id === lastSelectedSuggestion?.id) {
+    const lastValue = lastSelectedSuggestion?.dataset.value
+    for (const element of this.suggestionItemElements) {
+      if (
+        element === lastSelectedSuggestion ||
+        element.id === lastSelectedSuggestion?.id ||
+        (lastValue !== undefined && element.dataset.value === lastValue)
+      ) {
         this.selectedSuggestion = element
+        break
+      }
+    }
+
+    // Scrolling a closed list would scroll the page, as when hydrating
+    if (this.open) {
+      if (this.selectedSuggestion) {
+        this.selectedSuggestion.scrollIntoView()
+      } else {
+        this.suggestionItemElements[0]?.scrollIntoView()
+      }
+    }
+    this.announceSuggestionCount()
+  }
+
+  /**
+   * Reads a message out to screen reader users through the live region, replacing any
+   * announcement still waiting to be made.
+   *
+   * @param message The message to announce
+   */
+  private announce(message: string) {
+    window.clearTimeout(this.announcementTimeout)
+    this.announcement = message
+  }
+
+  /**
+   * Announces how many suggestions are available once they have stopped changing, as
+   * long as the suggestion list is open and isn't waiting on the data source.
+   */
+  private announceSuggestionCount() {
+    window.clearTimeout(this.announcementTimeout)
+    this.announcementTimeout = window.setTimeout(() => {
+      const state = this.listState
+      if (!this.open || state === 'loading') return
+      const messages = this.resolvedMessages
+      const count = this.suggestionCount
+      if (state === 'error') {
+        this.announce(messages.loadingFailed)
+      } else {
+        this.announce(
+          count > 0 ? messages.suggestionsAvailable(count) : messages.noResults
+        )
+      }
+    }, ANNOUNCEMENT_DELAY)
+  }
+
+  /**
+   * Reads a field from an item with one of the item accessors. Items that are just
+   * strings are their own value and label.
+   *
+   * @param item The item to read from
+   * @param accessor The property name or function reading the field
+   */
+  private readItem<T>(item: unknown, accessor: ItemAccessor<T>): T | undefined {
+    if (typeof accessor === 'function') {
+      return accessor(item)
+    }
+    if (typeof item === 'object' && item !== null) {
+      return (item as Record<string, T>)[accessor]
+    }
+    return undefined
+  }
+
+  private getItemValue(item: unknown) {
+    return typeof item === 'string'
+      ? item
+      : `${this.readItem(item, this.itemValue) ?? ''}`
+  }
+
+  private getItemLabel(item: unknown) {
+    return typeof item === 'string'
+      ? item
+      : `${this.readItem(item, this.itemLabel) ?? this.getItemValue(item)}`
+  }
+
+  private getItemDescription(item: unknown) {
+    return typeof item === 'string'
+      ? undefined
+      : this.readItem(item, this.itemDescription)
+  }
+
+  private isItemDisabled(item: unknown) {
+    return Boolean(this.readItem(item, this.itemDisabled))
+  }
+
+  /**
+   * Finds the value and label of the option, or item, with the given value.
+   *
+   * @param value The value to look for
+   */
+  private findItemByValue(value: string): ComboBoxItem | undefined {
+    const element = this.allOptionElements.find(
+      (option) => option.dataset.value === value
+    )
+    if (element) return {value, label: this.getOptionLabel(element)}
+    const item = this.items.find((item) => this.getItemValue(item) === value)
+    if (item !== undefined) return {value, label: this.getItemLabel(item)}
+    return undefined
+  }
+
+  /**
+   * The text shown to the user for an option, which can be overridden with a
+   * data-label attribute. Only the label of a `combo-box-option` is used, leaving out
+   * its icon, description and meta.
+   *
+   * @param option The option element to get the label of
+   */
+  private getOptionLabel(option: HTMLElement) {
+    if (option.dataset.label !== undefined) return option.dataset.label
+    if (option instanceof ComboBoxOption) return option.label
+    return option.textContent?.trim() ?? ''
+  }
+
+  /**
+   * Marks the chosen options as selected for assistive technology in multiple mode.
+   */
+  private markChosenSuggestions() {
+    const values = this.values
+    for (const element of this.allOptionElements) {
+      const isChosen = values.includes(element.dataset.value ?? '')
+      element.setAttribute('aria-selected', `${isChosen}`)
+      element.classList.toggle('chosen', isChosen)
+    }
+  }
+
+  /**
+   * Sets the form value to the committed option's value, or in multiple mode to an
+   * entry per chosen option under the combo box's name. The committed options and typed
+   * text are stored as the state to restore when navigating back to the form. Also
+   * brings `value` in step with the committed options.
+   */
+  private updateFormValue() {
+    this.value = this.values[0] ?? ''
+    const state = JSON.stringify({
+      items: this.chosenItems,
+      text: this.inputElement?.value ?? this.inputValue,
+    })
+    const select = this.nativeSelect
+    if (select) {
+      selectNativeOptions(select, this.values)
+    }
+    if (select?.name) {
+      // The select is submitted with the form, so the value isn't submitted twice
+      this.formInternals?.setFormValue(null, state)
+    } else if (this.multiple) {
+      const formData = new FormData()
+      if (this.name) {
+        for (const value of this.values) {
+          formData.append(this.name, value)
+        }
+      }
+      this.formInternals?.setFormValue(formData, state)
+    } else {
+      this.formInternals?.setFormValue(this.values[0] || null, state)
+    }
+    this.updateValidity()
+  }
+
+  /**
+   * Flags the combo box as missing a value when it is required and nothing has been
+   * committed, or in strict mode when the typed text doesn't match any suggestion.
+   */
+  private updateValidity() {
+    if (!this.formInternals) return
+    const text = this.inputElement?.value ?? this.inputValue
+    const collator = getCollator(this.resolvedLocale)
+    const matchesSuggestion = this.allOptionElements.some(
+      (element) => collator.compare(this.getOptionLabel(element), text) === 0
+    )
+    const messages = this.resolvedMessages
+
+    if (this.required && this.chosenItems.length === 0) {
+      this.formInternals.setValidity(
+        {valueMissing: true},
+        messages.valueMissing,
+        this.inputElement
+      )
+    } else if (this.strict && text !== '' && !matchesSuggestion) {
+      this.formInternals.setValidity(
+        {customError: true},
+        messages.optionMismatch,
+        this.inputElement
+      )
+    } else {
+      this.formInternals.setValidity({})
+    }
+  }
+
+  /**
+   * Adds the option to the chosen options in multiple mode, or removes it if it has
+   * already been chosen. Clears the typed text so the user can go on to the next option.
+   *
+   * @param target The option element the user has committed
+   */
+  private toggleChosenSuggestion(target: HTMLLIElement) {
+    const value = target.dataset.value ?? ''
+    if (this.values.includes(value)) {
+      this.removeChosenItem(value)
+    } else {
+      const items = [
+        ...this.chosenItems,
+        {value, label: this.getOptionLabel(target)},
+      ]
+      const event = new AnacapriEvent<ComboBoxSelectDetail>('select', {
+        detail: {
+          target,
+          value,
+          id: target.id,
+          label: this.getOptionLabel(target),
+          values: items.map((item) => item.value),
+        },
+      })
+      if (!this.dispatchEvent(event) || this.controlled) return
+      this.setChosenItems(items)
+      this.announce(this.resolvedMessages.selected(this.getOptionLabel(target)))
+      this.rememberSelection(items[items.length - 1])
+    }
+
+    this.setInputText('')
+    this.filterSuggestionElements('')
+    this.inputElement?.focus()
+  }
+
+  /**
+   * Removes an option from the chosen options in multiple mode and dispatches
+   * 'deselect' with the values that remain.
+   *
+   * @param value The value of the chosen option to remove
+   */
+  private removeChosenItem(value: string) {
+    const removedItem = this.chosenItems.find((item) => item.value === value)
+    const items = this.chosenItems.filter((item) => item.value !== value)
+    const event = new AnacapriEvent<ComboBoxDeselectDetail>('deselect', {
+      detail: {
+        value,
+        values: items.map((item) => item.value),
+      },
+    })
+    if (!this.dispatchEvent(event) || this.controlled) return
+    this.setChosenItems(items)
+    if (removedItem) {
+      this.announce(this.resolvedMessages.deselected(removedItem.label))
+    }
+  }
+
+  /**
+   * Reads the history back from its storage, as another combo box sharing its key may
+   * have added to it.
+   */
+  private loadHistory() {
+    const storage = this.historyStorage ?? getDefaultHistoryStorage()
+    this.historyEntries =
+      this.history > 0 && storage
+        ? readHistory(storage, this.historyStorageKey).slice(0, this.history)
+        : []
+  }
+
+  /**
+   * Adds a committed option to the front of the history, if the history is turned on.
+   *
+   * @param item The option just committed
+   */
+  private rememberSelection(item: ComboBoxItem) {
+    if (this.history <= 0) return
+    this.saveHistory(addHistoryEntry(this.historyEntries, item, this.history))
+  }
+
+  /**
+   * Removes an option from the history, deselecting it if it was selected.
+   *
+   * @param value The value of the option to remove
+   */
+  private removeHistoryEntry(value: string) {
+    if (
+      this.selectedSuggestion?.classList.contains('history-option') &&
+      this.selectedSuggestion.dataset.value === value
+    ) {
+      this.deselectSuggestion()
+    }
+    this.saveHistory(
+      this.historyEntries.filter((entry) => entry.value !== value)
+    )
+  }
+
+  private saveHistory(entries: ComboBoxItem[]) {
+    this.historyEntries = entries
+    const storage = this.historyStorage ?? getDefaultHistoryStorage()
+    if (storage) {
+      writeHistory(storage, this.historyStorageKey, entries)
+    }
+  }
+
+  private get historyStorageKey() {
+    return this.historyKey || this.name || 'combo-box'
+  }
+
+  /**
+   * Commits the options with the given values without firing any events, as when the
+   * value is set from code. Values no option has are committed as their own labels. The
+   * input is filled with the label of the committed option unless controlled.
+   *
+   * @param values The values of the options to commit
+   */
+  private commitValues(values: string[]) {
+    const items = values.map(
+      (value) => this.findItemByValue(value) ?? {value, label: value}
+    )
+    this.chosenItems = this.multiple ? items : items.slice(0, 1)
+    if (!this.multiple && !this.controlled) {
+      this.setInputText(this.chosenItems[0]?.label ?? '')
+    }
+    this.updateFormValue()
+  }
+
+  /**
+   * Replaces the committed options and updates the form value, dispatching 'change'
+   * only if the committed values are actually different from before.
+   *
+   * @param items The options that are now committed
+   */
+  private setChosenItems(items: ComboBoxItem[]) {
+    this.failedCreateText = null
+    const previousValues = this.values
+    this.chosenItems = items
+    this.updateFormValue()
+
+    const values = this.values
+    if (
+      values.length === previousValues.length &&
+      values.every((value, index) => value === previousValues[index])
+    ) {
+      return
+    }
+    const event = new AnacapriEvent<ComboBoxChangeDetail>('change', {
+      detail: {
+        value: this.multiple ? values : values[0],
+        values,
+      },
+    })
+    this.dispatchEvent(event)
+    // Scripts written for the select listen for its own change events
+    this.nativeSelect?.dispatchEvent(new Event('change'))
+  }
+
+  /**
+   * Puts the label of the committed option back into the input, discarding anything
+   * typed since. Clears the input if nothing has been committed, or in multiple mode
+   * where the committed options are shown as chips instead.
+   */
+  private revertInput() {
+    if (!this.inputElement) return
+    const text = this.multiple ? '' : this.chosenItems[0]?.label ?? ''
+    if (this.inputElement.value === text) return
+    if (this.controlled) {
+      this.handleQueryChange(text)
+      return
+    }
+    this.setInputText(text)
+    this.filterSuggestionElements(text)
+    this.updateFormValue()
+  }
+
+  /**
+   * Dispatches the cancelable 'create' event for the typed text. Unless canceled, waits
+   * for any promise the handler passed to `waitUntil`, then adds the item it resolves
+   * to, or the text itself, to the items and commits it. A rejected promise is kept as
+   * the error and nothing is committed.
+   *
+   * @param text The text to create an option from
+   */
+  private async createOption(text: string) {
+    const pending: Array<Promise<unknown>> = []
+    const event = new AnacapriEvent<ComboBoxCreateDetail>('create', {
+      detail: {
+        value: text,
+        waitUntil: (promise: Promise<unknown>) => {
+          pending.push(promise)
+        },
+      },
+    })
+    this.dispatchEvent(event)
+    if (event.defaultPrevented) return
+
+    let item: unknown = text
+    if (pending.length > 0) {
+      this.creating = true
+      this.failedCreateText = null
+      try {
+        const [created] = await Promise.all(pending)
+        item = created ?? text
+      } catch {
+        this.failedCreateText = text
+        this.announce(this.resolvedMessages.createFailed(text))
+        return
+      } finally {
+        this.creating = false
       }
     }
 
-    if (this.selectedSuggestion) {
-      this.selectedSuggestion.scrollIntoView()
+    const value = this.getItemValue(item)
+    let index = this.items.findIndex(
+      (existing) => this.getItemValue(existing) === value
+    )
+    if (index === -1) {
+      this.items = [...this.items, item]
+      index = this.items.length - 1
+    }
+    await this.updateComplete
+    if (this.virtual) {
+      await this.selectItem(index)
     } else {
-      this.suggestionItemElements[0]?.scrollIntoView()
+      const element = this.getItemElement(index)
+      if (element) {
+        this.selectSuggestion(element, false)
+      }
     }
+    this.commitSelection()
   }
 
   /**
@@ -404,28 +3249,49 @@ export class ComboBox extends LitElement {
     const target = this.selectedSuggestion?.closest(
       '[role="option"]'
     ) as HTMLLIElement
-    if (!target) return
+    if (!target || this.readonly) return
+    if (target.classList.contains('create-option')) {
+      this.createOption(target.dataset.value ?? '')
+      return
+    }
+    if (this.multiple) {
+      this.toggleChosenSuggestion(target)
+      return
+    }
 
-    const event = new AnacapriEvent('select', {
+    const label = this.getOptionLabel(target)
+    const event = new AnacapriEvent<ComboBoxSelectDetail>('select', {
       detail: {
         target,
         value: target.dataset.value,
         id: target.id,
+        label,
       },
     })
-    this.dispatchEvent(event)
-    this.formInternals?.setFormValue(target.dataset.value || null)
+    if (!this.dispatchEvent(event)) return
+    if (this.controlled) {
+      this.collapseSuggestionList()
+      return
+    }
+    this.setInputText(label)
+    this.setChosenItems([{value: target.dataset.value ?? '', label}])
+    this.announce(this.resolvedMessages.selected(label))
+    this.rememberSelection(this.chosenItems[0])
     this.inputElement?.focus()
     this.collapseSuggestionList()
   }
 
   /**
-   * Expands the suggestion list, sets up all event listeners on the list.
+   * Expands the suggestion list, sets up all event listeners on the list if they
+   * haven't been already. The list is repositioned as the page is scrolled or resized.
    */
   private expandSuggestionList() {
-    if (!this.suggestionListAbortController) {
-      this.suggestionListAbortController = new AbortController()
+    this.open = true
+    if (this.virtual) {
+      this.measureSuggestionList()
     }
+    if (this.suggestionListAbortController) return
+    this.suggestionListAbortController = new AbortController()
     document.addEventListener('click', (e) => this.handleClickEvents(e), {
       signal: this.suggestionListAbortController.signal,
     })
@@ -434,12 +3300,47 @@ export class ComboBox extends LitElement {
       (e) => this.handlePointerMoveSelection(e),
       {signal: this.suggestionListAbortController.signal}
     )
+    this.suggestionListElement?.addEventListener(
+      'pointerdown',
+      (e) => this.handlePointerDownSuggestionList(e),
+      {signal: this.suggestionListAbortController.signal}
+    )
+    this.suggestionListElement?.addEventListener(
+      'pointermove',
+      (e) => this.handleTouchMoveSuggestionList(e),
+      {signal: this.suggestionListAbortController.signal}
+    )
+    this.suggestionListElement?.addEventListener(
+      'pointercancel',
+      () => {
+        if (this.touchGesture) this.touchGesture.isScroll = true
+      },
+      {signal: this.suggestionListAbortController.signal}
+    )
     this.suggestionListElement?.addEventListener(
       'click',
-      () => this.commitSelection(),
+      (e) => this.handleClickSuggestionList(e),
+      {signal: this.suggestionListAbortController.signal}
+    )
+    // The visual viewport shrinks when an on-screen keyboard opens
+    window.visualViewport?.addEventListener(
+      'resize',
+      () => this.positionSuggestionList(),
+      {signal: this.suggestionListAbortController.signal}
+    )
+    window.visualViewport?.addEventListener(
+      'scroll',
+      () => this.positionSuggestionList(),
       {signal: this.suggestionListAbortController.signal}
     )
-    this.isExpanded = true
+    window.addEventListener('resize', () => this.positionSuggestionList(), {
+      signal: this.suggestionListAbortController.signal,
+    })
+    window.addEventListener('scroll', () => this.positionSuggestionList(), {
+      capture: true,
+      passive: true,
+      signal: this.suggestionListAbortController.signal,
+    })
   }
 
   /**
@@ -450,7 +3351,8 @@ export class ComboBox extends LitElement {
     this.suggestionListAbortController?.abort()
     this.suggestionListAbortController = null
     this.deselectSuggestion()
-    this.isExpanded = false
+    this.open = false
+    this.isSheet = false
   }
 }
 
@@ -458,4 +3360,12 @@ declare global {
   interface HTMLElementTagNameMap {
     'combo-box': ComboBox
   }
+  // input, select, change and close keep their native types, which these can't override
+  interface HTMLElementEventMap {
+    deselect: ComboBoxEventMap['deselect']
+    create: ComboBoxEventMap['create']
+    clear: ComboBoxEventMap['clear']
+    open: ComboBoxEventMap['open']
+    highlight: ComboBoxEventMap['highlight']
+  }
 }
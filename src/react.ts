@@ -0,0 +1,51 @@
+import * as React from 'react'
+import {createComponent, EventName} from '@lit/react'
+import {
+  ComboBox as ComboBoxElement,
+  ComboBoxEventMap,
+  ComboBoxGroup as ComboBoxGroupElement,
+  ComboBoxOption as ComboBoxOptionElement,
+} from './combo-box'
+
+/**
+ * The Combo Box as a React component. Every property of the element can be passed as a
+ * prop, objects and functions included, and its events are handled through the
+ * matching `on` props with their details typed.
+ */
+export const ComboBox = createComponent({
+  tagName: 'combo-box',
+  elementClass: ComboBoxElement,
+  react: React,
+  events: {
+    onInput: 'input' as EventName<ComboBoxEventMap['input']>,
+    onSelect: 'select' as EventName<ComboBoxEventMap['select']>,
+    onDeselect: 'deselect' as EventName<ComboBoxEventMap['deselect']>,
+    onChange: 'change' as EventName<ComboBoxEventMap['change']>,
+    onCreate: 'create' as EventName<ComboBoxEventMap['create']>,
+    onClear: 'clear' as EventName<ComboBoxEventMap['clear']>,
+    onOpen: 'open' as EventName<ComboBoxEventMap['open']>,
+    onClose: 'close' as EventName<ComboBoxEventMap['close']>,
+    onHighlight: 'highlight' as EventName<ComboBoxEventMap['highlight']>,
+  },
+  displayName: 'ComboBox',
+})
+
+/**
+ * Groups the options passed to it as children under a label.
+ */
+export const ComboBoxGroup = createComponent({
+  tagName: 'combo-box-group',
+  elementClass: ComboBoxGroupElement,
+  react: React,
+  displayName: 'ComboBoxGroup',
+})
+
+/**
+ * An option with an icon, description or meta passed to it as children in those slots.
+ */
+export const ComboBoxOption = createComponent({
+  tagName: 'combo-box-option',
+  elementClass: ComboBoxOptionElement,
+  react: React,
+  displayName: 'ComboBoxOption',
+})
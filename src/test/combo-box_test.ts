@@ -4,9 +4,9 @@
  * SPDX-License-Identifier: BSD-3-Clause
  */
 
-import {ComboBox} from '../combo-box.js'
+import {ComboBox, registerMessages} from '../combo-box.js'
 
-import {fixture, assert, oneEvent} from '@open-wc/testing'
+import {fixture, assert, oneEvent, aTimeout} from '@open-wc/testing'
 import {sendKeys, sendMouse} from '@web/test-runner-commands'
 import {html} from 'lit/static-html.js'
 
@@ -295,6 +295,32 @@ suite('combo-box', () => {
     assert(selectEvent.detail.id, 'target')
   })
 
+  test('Should not select or commit a disabled option when it is clicked on.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li>Some option</li>
+        <li id="target" disabled>Some option</li>
+      </combo-box>`
+    )) as ComboBox
+    const selections: Array<string | undefined> = []
+    el.addEventListener('select', (e) => selections.push(e.detail.value))
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await el.updateComplete
+
+    const target = el.querySelector('#target')
+    const rect = target?.getBoundingClientRect()
+    await sendMouse({
+      type: 'click',
+      position: [Math.floor(rect?.x || 0) + 1, Math.floor(rect?.y || 0) + 1],
+    })
+    await el.updateComplete
+
+    assert.notEqual(el.selectedSuggestion, target)
+    assert.isEmpty(selections)
+  })
+
   test('Should fire input event when user types in the field.', async () => {
     const el = (await fixture(
       html`<combo-box>
@@ -324,25 +350,1315 @@ suite('combo-box', () => {
     })
   })
 
-  test('Should be able to pass value property that will be passed as the input value.', async () => {
+  test('Should commit the option given by the value property and fill in its label.', async () => {
     const el = (await fixture(
-      html`<combo-box value="hello">
-        <li>Some option</li>
+      html`<combo-box value="target">
+        <li data-value="first">Some option</li>
         <li disabled>Some option</li>
-        <li id="target">Some option</li>
+        <li id="target" data-value="target">Target option</li>
         <li>Some option</li>
         <div slot="indicator">loading...</div>
       </combo-box>`
     )) as ComboBox
 
     const input = el.shadowRoot?.querySelector('input')
-    assert.equal(input?.value, 'hello')
+    assert.equal(input?.value, 'Target option')
+    assert.equal(el.selectedOption, el.querySelector('#target'))
     input?.focus()
 
     await sendKeys({
       type: ' world',
     })
     await el.updateComplete
-    assert.equal(input?.value, 'hello world')
+    assert.equal(input?.value, 'Target option world')
+    assert.equal(el.inputValue, 'Target option world')
+    assert.equal(el.value, 'target')
+  })
+
+  test('Should hide suggestions not matching the typed text when filtering by prefix.', async () => {
+    const el = (await fixture(
+      html`<combo-box filter="prefix">
+        <li id="berlin">Berlin</li>
+        <li id="bern">Bern</li>
+        <li id="hamburg">Hamburg</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'ber'})
+    await el.updateComplete
+
+    assert.deepEqual(
+      el.suggestionItemElements.map((element) => element.id),
+      ['berlin', 'bern']
+    )
+    assert.isTrue(el.querySelector<HTMLLIElement>('#hamburg')?.hidden)
+    assert.equal(
+      el.querySelector('#berlin mark[data-match]')?.textContent,
+      'Ber'
+    )
+  })
+
+  test('Should only navigate through the suggestions that match the typed text.', async () => {
+    const el = (await fixture(
+      html`<combo-box filter="substring">
+        <li id="berlin">Berlin</li>
+        <li id="hamburg">Hamburg</li>
+        <li id="dublin">Dublin</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'lin'})
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'ArrowDown'})
+    await el.updateComplete
+
+    assert.equal(el.selectedSuggestion, el.querySelector('#dublin'))
+  })
+
+  test('Should use the custom matcher to filter suggestions when provided.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li id="berlin" data-value="de">Berlin</li>
+        <li id="paris" data-value="fr">Paris</li>
+      </combo-box>`
+    )) as ComboBox
+    el.matcher = (_label, query, option) =>
+      (option as HTMLElement).dataset.value === query
+    await el.updateComplete
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'fr'})
+    await el.updateComplete
+
+    assert.deepEqual(
+      el.suggestionItemElements.map((element) => element.id),
+      ['paris']
+    )
+  })
+
+  test('Should render the suggestions resolved by the data source.', async () => {
+    const el = (await fixture(
+      html`<combo-box data-source-debounce="0"></combo-box>`
+    )) as ComboBox
+    el.dataSource = async (query) => [
+      {value: '1', label: `${query} one`},
+      {value: '2', label: `${query} two`, disabled: true},
+    ]
+    await el.updateComplete
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'a'})
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    await el.updateComplete
+
+    assert.isFalse(el.loading)
+    assert.equal(el.suggestionItemElements.length, 1)
+    assert.equal(el.suggestionItemElements[0].dataset.value, '1')
+  })
+
+  test('Should abort stale data source requests and ignore their results.', async () => {
+    const el = (await fixture(
+      html`<combo-box data-source-debounce="0"></combo-box>`
+    )) as ComboBox
+    const signals: AbortSignal[] = []
+    const resolvers: Array<() => void> = []
+    el.dataSource = (query, {signal}) => {
+      signals.push(signal)
+      return new Promise((resolve) =>
+        resolvers.push(() => resolve([{value: query, label: query}]))
+      )
+    }
+    await el.updateComplete
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'a'})
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    assert.isTrue(el.loading)
+    await sendKeys({type: 'b'})
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    assert.isTrue(signals[0].aborted)
+    resolvers[1]()
+    resolvers[0]()
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    await el.updateComplete
+
+    assert.isFalse(el.loading)
+    assert.deepEqual(
+      el.suggestionItemElements.map((element) => element.dataset.value),
+      ['ab']
+    )
+  })
+
+  test('Should not call the data source once disconnected or replaced.', async () => {
+    const el = (await fixture(
+      html`<combo-box data-source-debounce="50"></combo-box>`
+    )) as ComboBox
+    const queries: string[] = []
+    el.dataSource = async (query) => {
+      queries.push(query)
+      return []
+    }
+    await el.updateComplete
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'a'})
+    el.remove()
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    assert.isEmpty(queries)
+    assert.isFalse(el.loading)
+
+    document.body.append(el)
+    input?.focus()
+    await sendKeys({type: 'b'})
+    el.dataSource = undefined
+    await el.updateComplete
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    assert.isEmpty(queries)
+    assert.isFalse(el.loading)
+    el.remove()
+  })
+
+  test('Should add a chip for each committed option in multiple mode.', async () => {
+    const el = (await fixture(
+      html`<combo-box multiple name="cities">
+        <li id="berlin" data-value="berlin">Berlin</li>
+        <li id="paris" data-value="paris">Paris</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    await sendKeys({press: 'ArrowDown'})
+    setTimeout(() => sendKeys({press: 'Enter'}))
+    const selectEvent = await oneEvent(el, 'select')
+    await el.updateComplete
+
+    assert.deepEqual(selectEvent.detail.values, ['berlin', 'paris'])
+    assert.deepEqual(el.values, ['berlin', 'paris'])
+    assert.equal(el.shadowRoot?.querySelectorAll('[part="chip"]').length, 2)
+    assert.equal(
+      el.querySelector('#berlin')?.getAttribute('aria-selected'),
+      'true'
+    )
+    assert.equal(
+      el.shadowRoot?.querySelector('ul')?.getAttribute('aria-expanded'),
+      'true'
+    )
+  })
+
+  test('Should remove the last chip when pressing backspace in an empty input in multiple mode.', async () => {
+    const el = (await fixture(
+      html`<combo-box multiple>
+        <li id="berlin" data-value="berlin">Berlin</li>
+        <li id="paris" data-value="paris">Paris</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    await el.updateComplete
+    assert.deepEqual(el.values, ['berlin'])
+
+    setTimeout(() => sendKeys({press: 'Backspace'}))
+    const deselectEvent = await oneEvent(el, 'deselect')
+    await el.updateComplete
+
+    assert.equal(deselectEvent.detail.value, 'berlin')
+    assert.deepEqual(el.values, [])
+    assert.equal(el.shadowRoot?.querySelectorAll('[part="chip"]').length, 0)
+    assert.equal(
+      el.querySelector('#berlin')?.getAttribute('aria-selected'),
+      'false'
+    )
+  })
+
+  test('Should be invalid when required and no option has been committed.', async () => {
+    const form = await fixture(
+      html`<form>
+        <combo-box name="city" required>
+          <li id="berlin" data-value="berlin">Berlin</li>
+        </combo-box>
+      </form>`
+    )
+    const el = form.querySelector('combo-box') as ComboBox
+
+    assert.isFalse(el.checkValidity())
+    assert.isTrue(el.validity?.valueMissing)
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    await el.updateComplete
+
+    assert.isTrue(el.checkValidity())
+    assert.equal(new FormData(form as HTMLFormElement).get('city'), 'berlin')
+  })
+
+  test('Should be invalid in strict mode when the typed text matches no option.', async () => {
+    const el = (await fixture(
+      html`<combo-box strict>
+        <li id="berlin" data-value="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'Bonn'})
+    assert.isTrue(el.validity?.customError)
+
+    input!.select()
+    await sendKeys({type: 'berlin'})
+    assert.isTrue(el.checkValidity())
+  })
+
+  test('Should clear the committed option when the form is reset.', async () => {
+    const form = (await fixture(
+      html`<form>
+        <combo-box name="city">
+          <li id="berlin" data-value="berlin">Berlin</li>
+        </combo-box>
+      </form>`
+    )) as HTMLFormElement
+    const el = form.querySelector('combo-box') as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'Ber'})
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    assert.equal(new FormData(form).get('city'), 'berlin')
+
+    form.reset()
+    await el.updateComplete
+
+    assert.isNull(new FormData(form).get('city'))
+    assert.equal(input?.value, '')
+  })
+
+  test('Should disable the input when inside a disabled fieldset.', async () => {
+    const form = await fixture(
+      html`<form>
+        <fieldset disabled>
+          <combo-box name="city"></combo-box>
+        </fieldset>
+      </form>`
+    )
+    const el = form.querySelector('combo-box') as ComboBox
+    await el.updateComplete
+
+    assert.isTrue(el.shadowRoot?.querySelector('input')?.disabled)
+  })
+
+  test('Should revert uncommitted text when leaving the field in select-only mode.', async () => {
+    const el = (await fixture(
+      html`<combo-box mode="select-only">
+        <li id="berlin" data-value="berlin">Berlin</li>
+        <li id="paris" data-value="paris">Paris</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    assert.equal(input?.value, 'Berlin')
+
+    await sendKeys({type: ' and more'})
+    await sendKeys({press: 'Tab'})
+    await el.updateComplete
+
+    assert.equal(input?.value, 'Berlin')
+  })
+
+  test('Should clear uncommitted text on escape in select-only mode when nothing is committed.', async () => {
+    const el = (await fixture(
+      html`<combo-box mode="select-only">
+        <li id="berlin" data-value="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'Ber'})
+    await sendKeys({press: 'Escape'})
+    await el.updateComplete
+
+    assert.equal(input?.value, '')
+  })
+
+  test('Should only fire change when the committed value changes.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li id="berlin" data-value="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+    const changes: unknown[] = []
+    el.addEventListener('change', (e) =>
+      changes.push((e as CustomEvent).detail.value)
+    )
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    input?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+
+    assert.deepEqual(changes, ['berlin'])
+  })
+
+  test('Should complete the first matching suggestion inline when autocomplete is both.', async () => {
+    const el = (await fixture(
+      html`<combo-box autocomplete="both">
+        <li id="berlin" data-value="berlin">Berlin</li>
+        <li id="bern" data-value="bern">Bern</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'be'})
+    await el.updateComplete
+
+    assert.equal(input?.value, 'berlin')
+    assert.equal(input?.selectionStart, 2)
+    assert.equal(input?.selectionEnd, 6)
+    assert.equal(el.selectedSuggestion, el.querySelector('#berlin'))
+    assert.equal(
+      input?.getAttribute('aria-activedescendant'),
+      el.selectedSuggestion?.id
+    )
+
+    setTimeout(() => sendKeys({press: 'Enter'}))
+    const selectEvent = await oneEvent(el, 'select')
+    assert.equal(selectEvent.detail.value, 'berlin')
+  })
+
+  test('Should not complete inline again after deleting the completion.', async () => {
+    const el = (await fixture(
+      html`<combo-box autocomplete="inline">
+        <li id="berlin" data-value="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'Ber'})
+    assert.equal(input?.value, 'Berlin')
+    await sendKeys({press: 'Backspace'})
+
+    assert.equal(input?.value, 'Ber')
+  })
+
+  test('Should navigate through the options of groups without selecting the groups.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <combo-box-group label="Europe">
+          <li id="berlin">Berlin</li>
+          <li id="paris">Paris</li>
+        </combo-box-group>
+        <combo-box-group label="Asia">
+          <li id="tokyo">Tokyo</li>
+        </combo-box-group>
+      </combo-box>`
+    )) as ComboBox
+    const orderedIds = ['berlin', 'paris', 'tokyo']
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    for (const id of orderedIds) {
+      await sendKeys({press: 'ArrowDown'})
+      await el.updateComplete
+      assert.equal(el.selectedSuggestion, el.querySelector(`#${id}`))
+    }
+    assert.equal(el.querySelector('#tokyo')?.getAttribute('role'), 'option')
+  })
+
+  test('Should hide groups left without matching options when filtering.', async () => {
+    const el = (await fixture(
+      html`<combo-box filter="prefix">
+        <combo-box-group id="europe" label="Europe">
+          <li id="berlin">Berlin</li>
+        </combo-box-group>
+        <combo-box-group id="asia" label="Asia">
+          <li id="tokyo">Tokyo</li>
+        </combo-box-group>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'to'})
+    await el.updateComplete
+
+    assert.isTrue(el.querySelector<HTMLElement>('#europe')?.hidden)
+    assert.isFalse(el.querySelector<HTMLElement>('#asia')?.hidden)
+    assert.deepEqual(
+      el.suggestionItemElements.map((element) => element.id),
+      ['tokyo']
+    )
+  })
+
+  test('Should only render the options in view when virtual.', async () => {
+    const el = (await fixture(
+      html`<combo-box virtual></combo-box>`
+    )) as ComboBox
+    el.items = Array.from({length: 10000}, (_item, index) => ({
+      value: `${index}`,
+      label: `Item ${index}`,
+    }))
+    await el.updateComplete
+
+    const options = el.shadowRoot?.querySelectorAll('[role="option"]')
+    assert.isBelow(options?.length ?? 0, 100)
+    assert.equal(options?.[0].getAttribute('aria-setsize'), '10000')
+    assert.equal(options?.[0].getAttribute('aria-posinset'), '1')
+  })
+
+  test('Should navigate across the full set of items when virtual.', async () => {
+    const el = (await fixture(
+      html`<combo-box virtual></combo-box>`
+    )) as ComboBox
+    el.items = Array.from({length: 10000}, (_item, index) => ({
+      value: `${index}`,
+      label: `Item ${index}`,
+    }))
+    await el.updateComplete
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({press: 'ArrowUp'})
+    await el.updateComplete
+    await el.updateComplete
+
+    assert.equal(el.selectedSuggestion?.dataset.value, '9999')
+    assert.equal(el.selectedSuggestion?.getAttribute('aria-posinset'), '10000')
+    assert.equal(
+      input?.getAttribute('aria-activedescendant'),
+      el.selectedSuggestion?.id
+    )
+  })
+
+  test('Should keep the selection when it is scrolled out of view and back when virtual.', async () => {
+    const el = (await fixture(
+      html`<combo-box virtual></combo-box>`
+    )) as ComboBox
+    el.items = Array.from({length: 10000}, (_item, index) => ({
+      value: `${index}`,
+      label: `Item ${index}`,
+    }))
+    await el.updateComplete
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await el.updateComplete
+    assert.equal(el.selectedSuggestion?.dataset.value, '0')
+
+    const list = el.shadowRoot?.querySelector('ul') as HTMLUListElement
+    list.scrollTop = list.scrollHeight
+    list.dispatchEvent(new Event('scroll'))
+    await el.updateComplete
+    list.scrollTop = 0
+    list.dispatchEvent(new Event('scroll'))
+    await el.updateComplete
+
+    assert.equal(el.selectedSuggestion?.dataset.value, '0')
+    assert.isTrue(el.selectedSuggestion?.isConnected)
+    await sendKeys({press: 'ArrowDown'})
+    await el.updateComplete
+    assert.equal(el.selectedSuggestion?.dataset.value, '1')
+  })
+
+  test('Should flip the suggestion list above the input when there is no room below.', async () => {
+    const el = (await fixture(
+      html`<combo-box style="position: fixed; bottom: 0; left: 0">
+        <li>Some option</li>
+        <li>Some option</li>
+        <li>Some option</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await el.updateComplete
+    await el.updateComplete
+
+    const suggestions = el.shadowRoot?.querySelector('ul')
+    assert.equal(suggestions?.dataset.placement, 'top')
+    assert.isAtMost(
+      suggestions!.getBoundingClientRect().bottom,
+      el.getBoundingClientRect().top
+    )
+  })
+
+  test('Should limit the suggestion list to the height available in the viewport.', async () => {
+    const el = (await fixture(
+      html`<combo-box style="position: fixed; top: 0; left: 0">
+        ${Array.from({length: 200}, () => html`<li>Some option</li>`)}
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await el.updateComplete
+    await el.updateComplete
+
+    const suggestions = el.shadowRoot?.querySelector('ul')
+    assert.equal(suggestions?.dataset.placement, 'bottom')
+    assert.isAtMost(
+      suggestions!.getBoundingClientRect().bottom,
+      window.innerHeight
+    )
+  })
+
+  test('Should render items of any shape using the item accessors and renderer.', async () => {
+    const el = (await fixture(
+      html`<combo-box item-value="code"></combo-box>`
+    )) as ComboBox
+    el.items = [
+      {code: 'de', name: 'Germany', closed: false},
+      {code: 'fr', name: 'France', closed: true},
+    ]
+    type Country = {code: string; name: string; closed: boolean}
+    el.itemLabel = (item) => (item as Country).name
+    el.itemDisabled = 'closed'
+    el.renderItem = (item) => {
+      const country = item as Country
+      return html`<strong>${country.name}</strong> (${country.code})`
+    }
+    await el.updateComplete
+
+    const options = Array.from(
+      el.shadowRoot?.querySelectorAll<HTMLLIElement>('[role="option"]') ?? []
+    )
+    assert.deepEqual(
+      options.map((option) => option.dataset.value),
+      ['de', 'fr']
+    )
+    assert.equal(options[0].dataset.label, 'Germany')
+    assert.equal(options[0].querySelector('strong')?.textContent, 'Germany')
+    assert.isTrue(options[1].hasAttribute('disabled'))
+    assert.notEqual(options[0].id, options[1].id)
+  })
+
+  test('Should keep the selected item selected when the items are replaced.', async () => {
+    const el = (await fixture(html`<combo-box></combo-box>`)) as ComboBox
+    el.items = ['Berlin', 'Paris']
+    await el.updateComplete
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'ArrowDown'})
+    assert.equal(el.selectedSuggestion?.dataset.value, 'Paris')
+
+    el.items = ['Paris', 'Rome']
+    await el.updateComplete
+    await el.updateComplete
+
+    assert.equal(el.selectedSuggestion?.dataset.value, 'Paris')
+  })
+
+  test('Should generate unique ids for slotted options without one.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li>Some option</li>
+        <li>Some option</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const [first, second] = el.suggestionItemElements
+    assert.isNotEmpty(first.id)
+    assert.notEqual(first.id, second.id)
+  })
+
+  test('Should offer to create an option when the typed text matches none.', async () => {
+    const el = (await fixture(
+      html`<combo-box allow-create>
+        <li id="berlin" data-value="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'Berlin'})
+    await el.updateComplete
+    assert.isNull(el.shadowRoot?.querySelector('[part~="create-option"]'))
+
+    input!.select()
+    await sendKeys({type: 'Rome'})
+    await el.updateComplete
+    const createOption = el.shadowRoot?.querySelector('[part~="create-option"]')
+    assert.include(createOption?.textContent, 'Rome')
+    assert.include(el.suggestionItemElements, createOption)
+  })
+
+  test('Should commit the item resolved by the create event handler.', async () => {
+    const el = (await fixture(
+      html`<combo-box allow-create>
+        <li id="berlin" data-value="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+    let resolveItem: (item: unknown) => void = () => undefined
+    el.addEventListener('create', (e) => {
+      const {value, waitUntil} = (e as CustomEvent).detail
+      waitUntil(
+        new Promise((resolve) => {
+          resolveItem = () =>
+            resolve({value: value.toLowerCase(), label: value})
+        })
+      )
+    })
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'Rome'})
+    await sendKeys({press: 'ArrowUp'})
+    await sendKeys({press: 'Enter'})
+    await el.updateComplete
+    assert.equal(
+      el.shadowRoot?.querySelector('ul')?.getAttribute('aria-busy'),
+      'true'
+    )
+
+    setTimeout(() => resolveItem(undefined))
+    const selectEvent = await oneEvent(el, 'select')
+
+    assert.equal(selectEvent.detail.value, 'rome')
+    assert.deepEqual(el.items, [{value: 'rome', label: 'Rome'}])
+  })
+
+  test('Should show its own message until the next input when creating fails.', async () => {
+    const el = (await fixture(
+      html`<combo-box allow-create>
+        <li id="berlin" data-value="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+    let rejectItem: () => void = () => undefined
+    el.addEventListener('create', (e) => {
+      const {waitUntil} = (e as CustomEvent).detail
+      waitUntil(
+        new Promise((_resolve, reject) => {
+          rejectItem = () => reject(new Error('Offline'))
+        })
+      )
+    })
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'Rome'})
+    await sendKeys({press: 'ArrowUp'})
+    await sendKeys({press: 'Enter'})
+    await el.updateComplete
+    rejectItem()
+    await aTimeout(0)
+    await el.updateComplete
+
+    const createError = el.shadowRoot?.querySelector('[part="create-error"]')
+    assert.equal(
+      createError?.textContent?.trim(),
+      '“Rome” could not be created'
+    )
+    assert.isUndefined(el.error)
+    assert.notExists(el.shadowRoot?.querySelector('[part="error"]'))
+    assert.exists(el.shadowRoot?.querySelector('.create-option'))
+
+    await sendKeys({press: 'Backspace'})
+    await el.updateComplete
+    assert.notExists(el.shadowRoot?.querySelector('[part="create-error"]'))
+    assert.notExists(el.shadowRoot?.querySelector('[part="error-indicator"]'))
+  })
+
+  test('Should jump to the first and last suggestions with Home and End.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li id="berlin">Berlin</li>
+        <li id="paris">Paris</li>
+        <li id="rome">Rome</li>
+      </combo-box>`
+    )) as ComboBox
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await sendKeys({press: 'End'})
+    assert.equal(el.selectedSuggestion?.id, 'rome')
+    await sendKeys({press: 'Home'})
+    assert.equal(el.selectedSuggestion?.id, 'berlin')
+    await sendKeys({press: 'PageDown'})
+    assert.equal(el.selectedSuggestion?.id, 'rome')
+  })
+
+  test('Should open without moving the selection and clear on a second Escape.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li id="berlin">Berlin</li>
+        <li id="paris">Paris</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({type: 'Par'})
+    await sendKeys({press: 'Escape'})
+    assert.isFalse(el.open)
+    await sendKeys({press: 'Alt+ArrowDown'})
+    assert.isTrue(el.open)
+    assert.isNull(el.selectedSuggestion)
+    await sendKeys({press: 'Alt+ArrowUp'})
+    assert.isFalse(el.open)
+    await sendKeys({press: 'Escape'})
+    assert.equal(input?.value, '')
+  })
+
+  test('Should follow a remapped keymap.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li id="berlin">Berlin</li>
+        <li id="paris">Paris</li>
+      </combo-box>`
+    )) as ComboBox
+    el.keymap = {next: ['Ctrl+n'], last: []}
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    assert.isNull(el.selectedSuggestion)
+    await sendKeys({press: 'End'})
+    assert.isNull(el.selectedSuggestion)
+    await sendKeys({press: 'Control+n'})
+    assert.equal(el.selectedSuggestion?.id, 'berlin')
+  })
+
+  test('Should announce the number of suggestions once typing settles.', async () => {
+    const el = (await fixture(
+      html`<combo-box filter="substring">
+        <li id="berlin">Berlin</li>
+        <li id="paris">Paris</li>
+        <li id="rome">Rome</li>
+      </combo-box>`
+    )) as ComboBox
+    el.messages = {noResults: 'Keine Ergebnisse'}
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    assert.equal(input?.getAttribute('aria-expanded'), 'true')
+    await sendKeys({type: 'r'})
+    await aTimeout(600)
+    const status = el.shadowRoot?.querySelector('[role="status"]')
+    assert.equal(status?.textContent?.trim(), '3 suggestions available')
+
+    await sendKeys({type: 'xyz'})
+    await aTimeout(600)
+    assert.equal(status?.textContent?.trim(), 'Keine Ergebnisse')
+  })
+
+  test('Should announce the committed option.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li id="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    await el.updateComplete
+    assert.equal(input?.getAttribute('aria-expanded'), 'false')
+    assert.equal(
+      el.shadowRoot?.querySelector('[role="status"]')?.textContent?.trim(),
+      'Selected Berlin'
+    )
+  })
+
+  test('Should match suggestions ignoring case and diacritics.', async () => {
+    const el = (await fixture(
+      html`<combo-box filter="prefix">
+        <li id="zurich">Zürich</li>
+        <li id="geneva">Genève</li>
+      </combo-box>`
+    )) as ComboBox
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await sendKeys({type: 'zur'})
+    assert.deepEqual(
+      el.suggestionItemElements.map((element) => element.id),
+      ['zurich']
+    )
+    assert.equal(el.querySelector('#zurich mark')?.textContent, 'Zür')
+  })
+
+  test('Should show messages registered for the locale.', async () => {
+    registerMessages('de', {createOption: (text) => `„${text}“ anlegen`})
+    const el = (await fixture(
+      html`<combo-box allow-create lang="de-DE" required>
+        <li id="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+    el.messages = {valueMissing: 'Bitte wählen Sie eine Option.'}
+    await el.updateComplete
+
+    assert.equal(el.validationMessage, 'Bitte wählen Sie eine Option.')
+    el.shadowRoot?.querySelector('input')?.focus()
+    await sendKeys({type: 'Rom'})
+    await el.updateComplete
+    assert.equal(
+      el.shadowRoot
+        ?.querySelector('[part~="create-option"]')
+        ?.textContent?.trim(),
+      '„Rom“ anlegen'
+    )
+  })
+
+  test('Should show the empty state when nothing matches what was typed.', async () => {
+    const el = (await fixture(
+      html`<combo-box filter="prefix">
+        <li id="berlin">Berlin</li>
+        <span slot="empty">Nothing found</span>
+      </combo-box>`
+    )) as ComboBox
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await sendKeys({type: 'x'})
+    await el.updateComplete
+    const empty = el.shadowRoot?.querySelector('[part="empty"]')
+    const slot = empty?.querySelector('slot') as HTMLSlotElement
+    assert.equal(slot.assignedElements()[0]?.textContent, 'Nothing found')
+    assert.notInclude(el.suggestionItemElements, el.querySelector('[slot]'))
+  })
+
+  test('Should show the state set by the developer.', async () => {
+    const el = (await fixture(
+      html`<combo-box state="loading"></combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await el.updateComplete
+    assert.isTrue(el.open)
+    assert.equal(
+      el.shadowRoot?.querySelector('[part="loading"]')?.textContent?.trim(),
+      'Loading…'
+    )
+    assert.equal(
+      el.shadowRoot?.querySelector('ul')?.getAttribute('aria-busy'),
+      'true'
+    )
+
+    el.state = 'error'
+    await el.updateComplete
+    assert.isNull(el.shadowRoot?.querySelector('[part="loading"]'))
+    assert.exists(el.shadowRoot?.querySelector('[part="error"]'))
+  })
+
+  test('Should open and close from code.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li id="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+
+    el.show()
+    await el.updateComplete
+    assert.isTrue(el.hasAttribute('open'))
+    el.hide()
+    await el.updateComplete
+    assert.isFalse(el.hasAttribute('open'))
+    el.open = true
+    await el.updateComplete
+    assert.equal(
+      el.shadowRoot?.querySelector('ul')?.getAttribute('aria-expanded'),
+      'true'
+    )
+  })
+
+  test('Should select an option by value and clear it again.', async () => {
+    const el = (await fixture(
+      html`<combo-box name="city" clearable>
+        <li id="berlin" data-value="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+    const input = el.shadowRoot?.querySelector('input')
+
+    assert.isTrue(el.selectByValue('berlin'))
+    assert.isFalse(el.selectByValue('rome'))
+    await el.updateComplete
+    assert.equal(input?.value, 'Berlin')
+
+    const clearButton = el.shadowRoot?.querySelector(
+      '[part="clear-button"]'
+    ) as HTMLButtonElement
+    setTimeout(() => clearButton.click())
+    await oneEvent(el, 'clear')
+    await el.updateComplete
+    assert.equal(input?.value, '')
+    assert.isNull(el.shadowRoot?.querySelector('[part="clear-button"]'))
+  })
+
+  test('Should focus the input when the combo box is focused.', async () => {
+    const el = (await fixture(html`<combo-box></combo-box>`)) as ComboBox
+
+    el.focus()
+    assert.equal(
+      el.shadowRoot?.activeElement,
+      el.shadowRoot?.querySelector('input')
+    )
+  })
+
+  test('Should leave the option uncommitted when select is canceled.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li id="berlin" data-value="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+    const changes: Array<string | string[] | undefined> = []
+    el.addEventListener('select', (e) => e.preventDefault())
+    el.addEventListener('change', (e) => changes.push(e.detail.value))
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    assert.isEmpty(changes)
+    assert.isTrue(el.open)
+  })
+
+  test('Should fire open, highlight and close events.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li id="berlin" data-value="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+    const events: string[] = []
+    el.addEventListener('open', (e) => events.push(e.type))
+    el.addEventListener('close', (e) => events.push(e.type))
+    el.addEventListener('highlight', (e) =>
+      events.push(`${e.type} ${e.detail.value}`)
+    )
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await el.updateComplete
+    await sendKeys({press: 'ArrowDown'})
+    await el.updateComplete
+    await sendKeys({press: 'Escape'})
+    await el.updateComplete
+    assert.deepEqual(events, [
+      'open',
+      'highlight berlin',
+      'highlight undefined',
+      'close',
+    ])
+  })
+
+  test('Should offer recently committed options when the input is empty.', async () => {
+    const stored = new Map<string, string>()
+    const storage = {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+    }
+    const el = (await fixture(
+      html`<combo-box history="3" name="city" .historyStorage=${storage}>
+        <li id="berlin" data-value="berlin">Berlin</li>
+        <li id="paris" data-value="paris">Paris</li>
+      </combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input')
+    input?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    input!.value = ''
+    input!.dispatchEvent(new InputEvent('input'))
+    await el.updateComplete
+
+    const recent = el.shadowRoot?.querySelectorAll('[part~="history-option"]')
+    assert.equal(recent?.length, 1)
+    assert.equal(recent?.[0].getAttribute('data-value'), 'paris')
+    assert.equal(el.suggestionItemElements[0], recent?.[0])
+    assert.include(stored.get('combo-box-history:city'), 'Paris')
+  })
+
+  test('Should remove an entry from the recent options.', async () => {
+    const storage = {
+      getItem: () => JSON.stringify([{value: 'rome', label: 'Rome'}]),
+      setItem: () => undefined,
+    }
+    const el = (await fixture(
+      html`<combo-box history="3" .historyStorage=${storage}></combo-box>`
+    )) as ComboBox
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await el.updateComplete
+    assert.isTrue(el.open)
+    await sendKeys({press: 'ArrowDown'})
+    assert.equal(el.selectedSuggestion?.dataset.value, 'rome')
+    await sendKeys({press: 'Shift+Delete'})
+    await el.updateComplete
+    assert.isNull(el.shadowRoot?.querySelector('[part~="history-option"]'))
+  })
+
+  test('Should switch the design tokens for the dark theme.', async () => {
+    const el = (await fixture(
+      html`<combo-box theme="light"></combo-box>`
+    )) as ComboBox
+    const background = () =>
+      getComputedStyle(el)
+        .getPropertyValue('--combo-box-color-background')
+        .trim()
+
+    assert.equal(background(), '#fff')
+    el.theme = 'dark'
+    await el.updateComplete
+    assert.equal(background(), '#1f1f1f')
+    assert.exists(el.shadowRoot?.querySelector('[part="indicator"]'))
+  })
+
+  test('Should let the developer override design tokens.', async () => {
+    const el = (await fixture(
+      html`<combo-box style="--combo-box-input-border-radius: 8px"></combo-box>`
+    )) as ComboBox
+
+    const input = el.shadowRoot?.querySelector('input') as HTMLInputElement
+    assert.equal(getComputedStyle(input).borderTopLeftRadius, '8px')
+  })
+
+  test('Should not commit an option when a touch scrolls the list.', async () => {
+    const el = (await fixture(
+      html`<combo-box>
+        <li id="berlin" data-value="berlin">Berlin</li>
+        <li id="paris" data-value="paris">Paris</li>
+      </combo-box>`
+    )) as ComboBox
+    const selections: Array<string | undefined> = []
+    el.addEventListener('select', (e) => selections.push(e.detail.value))
+    el.shadowRoot?.querySelector('input')?.focus()
+    await el.updateComplete
+
+    const paris = el.querySelector('#paris') as HTMLLIElement
+    const touch = (type: string, clientY: number) =>
+      paris.dispatchEvent(
+        new PointerEvent(type, {
+          pointerType: 'touch',
+          clientY,
+          bubbles: true,
+          composed: true,
+        })
+      )
+    touch('pointerdown', 10)
+    touch('pointermove', 60)
+    paris.click()
+    assert.isEmpty(selections)
+
+    touch('pointerdown', 10)
+    paris.click()
+    assert.deepEqual(selections, ['paris'])
+  })
+
+  test('Should show the suggestion list as a sheet below the breakpoint.', async () => {
+    const el = (await fixture(
+      html`<combo-box sheet-breakpoint="100000">
+        <li id="berlin">Berlin</li>
+      </combo-box>`
+    )) as ComboBox
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await el.updateComplete
+    await el.updateComplete
+    assert.isTrue(el.hasAttribute('sheet'))
+    const list = el.shadowRoot?.querySelector('ul') as HTMLUListElement
+    assert.equal(getComputedStyle(list).position, 'fixed')
+
+    el.hide()
+    await el.updateComplete
+    assert.isFalse(el.hasAttribute('sheet'))
+  })
+
+  test('Should create options from a slotted select and keep it in sync.', async () => {
+    const form = await fixture(
+      html`<form>
+        <combo-box>
+          <select name="city">
+            <option value="">Choose a city</option>
+            <optgroup label="Germany">
+              <option value="berlin">Berlin</option>
+              <option value="munich" disabled>Munich</option>
+            </optgroup>
+            <option value="paris" selected>Paris</option>
+          </select>
+        </combo-box>
+      </form>`
+    )
+    const el = form.querySelector('combo-box') as ComboBox
+    const select = form.querySelector('select') as HTMLSelectElement
+    await el.updateComplete
+
+    assert.isTrue(select.hidden)
+    assert.equal(el.shadowRoot?.querySelector('input')?.value, 'Paris')
+    assert.equal(el.querySelector('combo-box-group')?.label, 'Germany')
+    assert.exists(el.querySelector('li[data-value="munich"][disabled]'))
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    assert.equal(el.selectedSuggestion?.dataset.value, 'berlin')
+    await sendKeys({press: 'Enter'})
+    assert.equal(select.value, 'berlin')
+    assert.deepEqual(new FormData(form as HTMLFormElement).getAll('city'), [
+      'berlin',
+    ])
+  })
+
+  test('Should take its options from the datalist named by list.', async () => {
+    const container = await fixture(
+      html`<div>
+        <datalist id="cities">
+          <option value="Berlin"></option>
+          <option value="Rome"></option>
+        </datalist>
+        <combo-box list="cities"></combo-box>
+      </div>`
+    )
+    const el = container.querySelector('combo-box') as ComboBox
+    await el.updateComplete
+
+    container.querySelector('datalist')?.append(new Option('Paris', 'Paris'))
+    await aTimeout(0)
+    assert.deepEqual(
+      Array.from(el.querySelectorAll('li')).map((li) => li.dataset.value),
+      ['Berlin', 'Rome', 'Paris']
+    )
+  })
+
+  test('Should use only the label of a rich option as its text.', async () => {
+    const el = await fixture<ComboBox>(
+      html`<combo-box mode="select-only">
+        <combo-box-option data-value="ada">
+          <img slot="start" alt="" />
+          Ada Lovelace
+          <span slot="description">ada@example.com</span>
+          <span slot="end">Admin</span>
+        </combo-box-option>
+      </combo-box>`
+    )
+    const option = el.querySelector('combo-box-option') as HTMLElement
+
+    assert.equal(option.getAttribute('role'), 'option')
+    el.shadowRoot?.querySelector('input')?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    await el.updateComplete
+    assert.equal(el.shadowRoot?.querySelector('input')?.value, 'Ada Lovelace')
+  })
+
+  test('Should show the description of an item beneath its label.', async () => {
+    const el = await fixture<ComboBox>(
+      html`<combo-box
+        .items=${[
+          {value: 'ada', label: 'Ada Lovelace', description: 'ada@example.com'},
+        ]}
+      ></combo-box>`
+    )
+
+    assert.equal(
+      el.shadowRoot?.querySelector('[part="option-label"]')?.textContent,
+      'Ada Lovelace'
+    )
+    assert.equal(
+      el.shadowRoot?.querySelector('[part="option-description"]')?.textContent,
+      'ada@example.com'
+    )
+  })
+
+  test('Should show the preview pane while an option is selected.', async () => {
+    const el = await fixture<ComboBox>(
+      html`<combo-box>
+        <li data-value="ada">Ada Lovelace</li>
+        <div slot="preview">Details</div>
+      </combo-box>`
+    )
+    const preview = el.shadowRoot?.querySelector(
+      '[part="preview"]'
+    ) as HTMLElement
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await el.updateComplete
+    assert.isTrue(preview.hidden)
+
+    await sendKeys({press: 'ArrowDown'})
+    await el.updateComplete
+    assert.isFalse(preview.hidden)
+
+    await sendKeys({press: 'Escape'})
+    await el.updateComplete
+    assert.isTrue(preview.hidden)
+  })
+
+  test('Should keep the value, text and committed option in step.', async () => {
+    const el = await fixture<ComboBox>(
+      html`<combo-box>
+        <li id="berlin" data-value="berlin">Berlin</li>
+        <li id="paris" data-value="paris">Paris</li>
+      </combo-box>`
+    )
+    const input = el.shadowRoot?.querySelector('input')
+
+    input?.focus()
+    await sendKeys({type: 'Ber'})
+    assert.equal(el.inputValue, 'Ber')
+    await sendKeys({press: 'ArrowDown'})
+    setTimeout(() => sendKeys({press: 'Enter'}))
+    await oneEvent(el, 'change')
+    assert.equal(el.value, 'berlin')
+    assert.equal(el.inputValue, 'Berlin')
+    assert.equal(el.selectedOption, el.querySelector('#berlin'))
+
+    el.value = 'paris'
+    await el.updateComplete
+    assert.equal(input?.value, 'Paris')
+    assert.equal(el.selectedOption, el.querySelector('#paris'))
+  })
+
+  test('Should only request changes when controlled.', async () => {
+    const el = await fixture<ComboBox>(
+      html`<combo-box controlled>
+        <li id="berlin" data-value="berlin">Berlin</li>
+      </combo-box>`
+    )
+    const input = el.shadowRoot?.querySelector('input')
+
+    input?.focus()
+    setTimeout(() => sendKeys({type: 'B'}))
+    const inputEvent = await oneEvent(el, 'input')
+    assert.equal(inputEvent.detail.value, 'B')
+    await el.updateComplete
+    assert.equal(input?.value, '')
+
+    el.inputValue = 'Ber'
+    await el.updateComplete
+    assert.equal(input?.value, 'Ber')
+    await sendKeys({press: 'ArrowDown'})
+    setTimeout(() => sendKeys({press: 'Enter'}))
+    const selectEvent = await oneEvent(el, 'select')
+    assert.equal(selectEvent.detail.label, 'Berlin')
+    assert.equal(el.value, '')
+
+    el.value = selectEvent.detail.value
+    el.inputValue = selectEvent.detail.label
+    await el.updateComplete
+    assert.equal(el.selectedOption, el.querySelector('#berlin'))
+    assert.equal(input?.value, 'Berlin')
   })
 })
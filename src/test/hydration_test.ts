@@ -0,0 +1,55 @@
+// Must be loaded before the component, so that it hydrates server rendered markup
+import 'lit/experimental-hydrate-support.js'
+import {ComboBox} from '../combo-box.js'
+
+import {assert} from '@open-wc/testing'
+import {executeServerCommand, sendKeys} from '@web/test-runner-commands'
+import {hydrateShadowRoots} from '@webcomponents/template-shadowroot'
+
+suite('hydration', () => {
+  let container: HTMLElement
+
+  setup(async () => {
+    container = document.createElement('div')
+    container.innerHTML = await executeServerCommand<string, string>(
+      'render-ssr',
+      'renderLabelled'
+    )
+    // Markup set through innerHTML has its declarative shadow roots left as templates
+    hydrateShadowRoots(container)
+  })
+
+  teardown(() => {
+    container.remove()
+  })
+
+  test('Should take over the shadow root rendered on the server.', async () => {
+    const input = container
+      .querySelector('combo-box')
+      ?.shadowRoot?.querySelector('input')
+    assert.exists(input)
+
+    document.body.append(container)
+    const el = container.querySelector('combo-box') as ComboBox
+    await el.updateComplete
+
+    assert.instanceOf(el, ComboBox)
+    assert.equal(el.shadowRoot?.querySelector('input'), input)
+    assert.lengthOf(el.shadowRoot?.querySelectorAll('input') ?? [], 1)
+  })
+
+  test('Should dispatch one input event for each keystroke once hydrated.', async () => {
+    document.body.append(container)
+    const el = container.querySelector('combo-box') as ComboBox
+    await el.updateComplete
+
+    let inputEvents = 0
+    el.addEventListener('input', () => inputEvents++)
+    el.shadowRoot?.querySelector('input')?.focus()
+    await sendKeys({type: 'B'})
+    await el.updateComplete
+
+    assert.equal(inputEvents, 1)
+    assert.equal(el.inputValue, 'B')
+  })
+})
@@ -0,0 +1,64 @@
+import {ComboBox as ComboBoxElement} from '../combo-box.js'
+import {ComboBox} from '../react.js'
+
+import {assert} from '@open-wc/testing'
+import {sendKeys} from '@web/test-runner-commands'
+import {createElement} from 'react'
+import {flushSync} from 'react-dom'
+import {createRoot, Root} from 'react-dom/client'
+
+suite('react', () => {
+  let container: HTMLElement
+  let root: Root
+
+  setup(() => {
+    container = document.createElement('div')
+    document.body.append(container)
+    root = createRoot(container)
+  })
+
+  teardown(() => {
+    root.unmount()
+    container.remove()
+  })
+
+  test('Should set props as properties of the combo box.', async () => {
+    const items = [{value: 'berlin', label: 'Berlin'}]
+    const keymap = {open: ['F4']}
+    flushSync(() =>
+      root.render(createElement(ComboBox, {items, keymap, multiple: true}))
+    )
+    const el = container.querySelector('combo-box') as ComboBoxElement
+
+    assert.instanceOf(el, ComboBoxElement)
+    assert.strictEqual(el.items, items)
+    assert.strictEqual(el.keymap, keymap)
+    assert.isTrue(el.multiple)
+  })
+
+  test('Should call the event props with the events of the combo box.', async () => {
+    const selections: Array<string | undefined> = []
+    const changes: Array<string | string[] | undefined> = []
+    flushSync(() =>
+      root.render(
+        createElement(
+          ComboBox,
+          {
+            onSelect: (e) => selections.push(e.detail.value),
+            onChange: (e) => changes.push(e.detail.value),
+          },
+          createElement('li', {'data-value': 'berlin'}, 'Berlin')
+        )
+      )
+    )
+    const el = container.querySelector('combo-box') as ComboBoxElement
+    await el.updateComplete
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    assert.deepEqual(selections, ['berlin'])
+    assert.deepEqual(changes, ['berlin'])
+    assert.equal(el.value, 'berlin')
+  })
+})
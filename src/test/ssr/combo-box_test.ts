@@ -0,0 +1,27 @@
+import {describe, test} from 'node:test'
+import assert from 'node:assert'
+import {renderToString} from './render-to-string.js'
+
+describe('combo-box on the server', () => {
+  test('renders a declarative shadow root', async () => {
+    const markup = await renderToString('renderEmpty')
+    assert.match(markup, /<template shadowroot="open">/)
+    assert.match(markup, /role="combobox"/)
+    assert.match(markup, /aria-expanded="false"/)
+    assert.doesNotMatch(markup, /<combo-box[^>]* open/)
+  })
+
+  test('renders the label of the initial value in the input', async () => {
+    const markup = await renderToString('renderWithValue')
+    assert.match(markup, /value="Berlin"/)
+    assert.match(markup, /id="option-0"/)
+    assert.match(markup, /id="option-1"/)
+  })
+
+  test('renders the same markup every time, so it can be hydrated', async () => {
+    assert.equal(
+      await renderToString('renderWithValue'),
+      await renderToString('renderWithValue')
+    )
+  })
+})
@@ -0,0 +1,21 @@
+import {createRequire} from 'node:module'
+import {getWindow} from '@lit-labs/ssr/lib/dom-shim.js'
+import {ModuleLoader} from '@lit-labs/ssr/lib/module-loader.js'
+
+/**
+ * Renders a template exported by `render.js` to a string, as a server would. The module
+ * is loaded into the DOM shim the server renders with, which is given Node's own
+ * `CustomEvent` as the shim leaves it out.
+ *
+ * @param name The name of the function exported by `render.js` to render
+ */
+export async function renderToString(name: string) {
+  const window = getWindow({
+    includeJSBuiltIns: true,
+    props: {require: createRequire(import.meta.url), CustomEvent},
+  })
+  const loader = new ModuleLoader({global: window})
+  const {module} = await loader.importModule('./render.js', import.meta.url)
+  const render = module.namespace[name] as () => Iterable<string>
+  return Array.from(render()).join('')
+}
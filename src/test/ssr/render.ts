@@ -0,0 +1,30 @@
+import {html} from 'lit'
+import {render} from '@lit-labs/ssr/lib/render-lit-html.js'
+import '../../combo-box.js'
+
+/**
+ * Templates rendered on the server by the SSR and hydration tests. They live in their own module so
+ * that it can be loaded into the DOM shim the server renders with.
+ */
+
+export const renderEmpty = () => render(html`<combo-box></combo-box>`)
+
+export const renderWithValue = () =>
+  render(
+    html`<combo-box
+      label="City"
+      value="berlin"
+      .items=${[
+        {value: 'berlin', label: 'Berlin'},
+        {value: 'paris', label: 'Paris'},
+      ]}
+    ></combo-box>`
+  )
+
+export const renderLabelled = () =>
+  render(
+    html`<combo-box label="City">
+      <li data-value="berlin">Berlin</li>
+      <li data-value="paris">Paris</li>
+    </combo-box>`
+  )
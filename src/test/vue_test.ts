@@ -0,0 +1,92 @@
+import {ComboBox as ComboBoxElement} from '../combo-box.js'
+import {ComboBox} from '../vue.js'
+
+import {assert} from '@open-wc/testing'
+import {sendKeys} from '@web/test-runner-commands'
+import {compile} from '@vue/compiler-dom'
+import * as Vue from 'vue'
+import {App, createApp, h, nextTick, ref, RenderFunction} from 'vue'
+
+suite('vue', () => {
+  let container: HTMLElement
+  let app: App | undefined
+
+  setup(() => {
+    container = document.createElement('div')
+    document.body.append(container)
+  })
+
+  teardown(() => {
+    app?.unmount()
+    container.remove()
+  })
+
+  test('Should set props as properties of the combo box.', async () => {
+    const items = [{value: 'berlin', label: 'Berlin'}]
+    const keymap = {open: ['F4']}
+    app = createApp(() => h(ComboBox, {items, keymap, multiple: true}))
+    app.mount(container)
+    const el = container.querySelector('combo-box') as ComboBoxElement
+
+    assert.instanceOf(el, ComboBoxElement)
+    assert.strictEqual(el.items, items)
+    assert.strictEqual(el.keymap, keymap)
+    assert.isTrue(el.multiple)
+    assert.isTrue(el.allowNavigationWrap)
+  })
+
+  test('Should turn boolean props on from bare attributes in a template.', async () => {
+    const {code} = compile('<ComboBox multiple allow-create />', {
+      mode: 'function',
+    })
+    const render = new Function('Vue', code)(Vue) as RenderFunction
+    app = createApp({components: {ComboBox}, render})
+    app.mount(container)
+    const el = container.querySelector('combo-box') as ComboBoxElement
+
+    assert.isTrue(el.multiple)
+    assert.isTrue(el.allowCreate)
+    assert.isFalse(el.disabled)
+    assert.isTrue(el.allowNavigationWrap)
+  })
+
+  test('Should bind the value and text with v-model.', async () => {
+    const value = ref('')
+    const inputValue = ref('')
+    const selections: Array<string | undefined> = []
+    app = createApp(() =>
+      h(
+        ComboBox,
+        {
+          modelValue: value.value,
+          'onUpdate:modelValue': (next: string) => (value.value = next),
+          inputValue: inputValue.value,
+          'onUpdate:inputValue': (next: string) => (inputValue.value = next),
+          onSelect: (e: CustomEvent<{value?: string}>) =>
+            selections.push(e.detail.value),
+        },
+        () => [
+          h('li', {'data-value': 'berlin'}, 'Berlin'),
+          h('li', {'data-value': 'paris'}, 'Paris'),
+        ]
+      )
+    )
+    app.mount(container)
+    const el = container.querySelector('combo-box') as ComboBoxElement
+    await el.updateComplete
+
+    el.shadowRoot?.querySelector('input')?.focus()
+    await sendKeys({type: 'Ber'})
+    assert.equal(inputValue.value, 'Ber')
+    await sendKeys({press: 'ArrowDown'})
+    await sendKeys({press: 'Enter'})
+    assert.deepEqual(selections, ['berlin'])
+    assert.equal(value.value, 'berlin')
+    assert.equal(inputValue.value, 'Berlin')
+
+    value.value = 'paris'
+    await nextTick()
+    await el.updateComplete
+    assert.equal(el.inputValue, 'Paris')
+  })
+})
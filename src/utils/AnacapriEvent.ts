@@ -1,8 +1,5 @@
-export default class AnacapriEvent extends CustomEvent<unknown> {
-  constructor(
-    type: string,
-    eventInitDict?: CustomEventInit<unknown> | undefined
-  ) {
+export default class AnacapriEvent<T = unknown> extends CustomEvent<T> {
+  constructor(type: string, eventInitDict?: CustomEventInit<T> | undefined) {
     const bubbles =
       eventInitDict?.bubbles !== undefined ? eventInitDict.bubbles : true
     const composed =
@@ -1,13 +1,23 @@
+/**
+ * A debounced function, which can be cancelled while a call is still waiting.
+ */
+export interface Debounced<T extends unknown[]> {
+  (...Rest: T): void
+  cancel(): void
+}
+
 export default function debounce<T extends unknown[]>(
   callback: (...Rest: T) => unknown,
   wait = 0
-): (...Rest: T) => void {
+): Debounced<T> {
   let timeout: number
-  return function (...Rest) {
+  const debounced = function (...Rest: T) {
     clearTimeout(timeout)
     timeout = window.setTimeout(() => {
       clearTimeout(timeout)
       callback(...Rest)
     }, wait)
   }
+  debounced.cancel = () => clearTimeout(timeout)
+  return debounced
 }
@@ -0,0 +1,171 @@
+/**
+ * A half open range `[start, end)` of characters within an option label that
+ * matched the user's query.
+ */
+export type MatchRange = [start: number, end: number]
+
+/**
+ * A matcher decides whether an option should be shown for the given query. Returning
+ * `false` hides the option, `true` shows it without any highlighting, and an array of
+ * ranges shows it with each range of the label highlighted.
+ */
+export type Matcher = (
+  label: string,
+  query: string,
+  option: Element
+) => MatchRange[] | boolean
+
+export type FilterMode = 'none' | 'prefix' | 'substring' | 'fuzzy'
+
+const collators = new Map<string, Intl.Collator>()
+
+/**
+ * A collator for the locale that compares letters without regard to case or
+ * diacritics, so `e` matches `É`. Collators are cached as they are costly to create.
+ *
+ * @param locale The locale to compare in, the browser's own if not given
+ */
+export function getCollator(locale?: string) {
+  const key = locale ?? ''
+  let collator = collators.get(key)
+  if (!collator) {
+    collator = new Intl.Collator(locale, {usage: 'search', sensitivity: 'base'})
+    collators.set(key, collator)
+  }
+  return collator
+}
+
+/**
+ * Creates a matcher for options whose label starts with the query.
+ *
+ * @param collator Decides which characters are equal
+ */
+export function createPrefixMatcher(collator = getCollator()): Matcher {
+  return (label, query) =>
+    collator.compare(label.slice(0, query.length), query) === 0
+      ? [[0, query.length]]
+      : false
+}
+
+/**
+ * Creates a matcher for options whose label contains the query anywhere.
+ *
+ * @param collator Decides which characters are equal
+ */
+export function createSubstringMatcher(collator = getCollator()): Matcher {
+  return (label, query) => {
+    for (let start = 0; start + query.length <= label.length; start++) {
+      const end = start + query.length
+      if (collator.compare(label.slice(start, end), query) === 0) {
+        return [[start, end]]
+      }
+    }
+    return false
+  }
+}
+
+/**
+ * Creates a matcher for options whose label contains every character of the query in
+ * order, though not necessarily next to each other. Consecutive matched characters are
+ * merged into a single range.
+ *
+ * @param collator Decides which characters are equal
+ */
+export function createFuzzyMatcher(collator = getCollator()): Matcher {
+  return (label, query) => {
+    const ranges: MatchRange[] = []
+    let position = 0
+    for (const character of query) {
+      let index = position
+      while (
+        index < label.length &&
+        collator.compare(label[index], character) !== 0
+      ) {
+        index++
+      }
+      if (index === label.length) return false
+      const lastRange = ranges[ranges.length - 1]
+      if (lastRange && lastRange[1] === index) {
+        lastRange[1] = index + 1
+      } else {
+        ranges.push([index, index + 1])
+      }
+      position = index + 1
+    }
+    return ranges
+  }
+}
+
+/**
+ * Creates the built in matchers keyed by filter mode, comparing in the given locale.
+ * `none` has no matcher as it leaves filtering up to the developer.
+ *
+ * @param locale The locale to compare in, the browser's own if not given
+ */
+export function createMatchers(
+  locale?: string
+): Record<FilterMode, Matcher | undefined> {
+  const collator = getCollator(locale)
+  return {
+    none: undefined,
+    prefix: createPrefixMatcher(collator),
+    substring: createSubstringMatcher(collator),
+    fuzzy: createFuzzyMatcher(collator),
+  }
+}
+
+/**
+ * Matches options whose label starts with the query.
+ */
+export const prefixMatcher = createPrefixMatcher()
+
+/**
+ * Matches options whose label contains the query anywhere.
+ */
+export const substringMatcher = createSubstringMatcher()
+
+/**
+ * Matches options whose label contains every character of the query in order.
+ */
+export const fuzzyMatcher = createFuzzyMatcher()
+
+/**
+ * The built in matchers in the browser's locale, keyed by filter mode.
+ */
+export const matchers = createMatchers()
+
+/**
+ * Wraps each matched range of an option's text in a `mark` element, or removes the
+ * marks again when no ranges are passed. Only options made up purely of text are
+ * highlighted, so that richer option markup provided by the developer is never
+ * replaced.
+ *
+ * @param option The option element to highlight
+ * @param ranges The ranges of the trimmed option text to highlight
+ */
+export function highlightMatches(option: Element, ranges: MatchRange[] = []) {
+  const isPlainText = Array.from(option.children).every((child) =>
+    child.matches('mark[data-match]')
+  )
+  if (!isPlainText) return
+
+  const text = option.textContent || ''
+  if (option.children.length > 0) {
+    option.textContent = text
+  }
+  if (ranges.length === 0) return
+
+  const offset = text.length - text.trimStart().length
+  const fragment = document.createDocumentFragment()
+  let position = 0
+  for (const [start, end] of ranges) {
+    fragment.append(text.slice(position, start + offset))
+    const mark = document.createElement('mark')
+    mark.dataset.match = ''
+    mark.textContent = text.slice(start + offset, end + offset)
+    fragment.append(mark)
+    position = end + offset
+  }
+  fragment.append(text.slice(position))
+  option.replaceChildren(fragment)
+}
@@ -0,0 +1,86 @@
+import type {ComboBoxItem} from '../combo-box'
+
+/**
+ * Where the history of committed options is kept. `localStorage` and `sessionStorage`
+ * fit this as they are, or an adapter can keep it anywhere else.
+ */
+export interface HistoryStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+}
+
+const KEY_PREFIX = 'combo-box-history:'
+
+/**
+ * The browser's local storage, or undefined where it isn't available, such as on the
+ * server or when storage is blocked.
+ */
+export function getDefaultHistoryStorage(): HistoryStorage | undefined {
+  try {
+    return typeof window === 'undefined' ? undefined : window.localStorage
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Reads the history kept under a key, most recent first. Anything unreadable is
+ * treated as an empty history.
+ *
+ * @param storage Where the history is kept
+ * @param key The key the history is kept under
+ */
+export function readHistory(
+  storage: HistoryStorage,
+  key: string
+): ComboBoxItem[] {
+  try {
+    const entries = JSON.parse(storage.getItem(KEY_PREFIX + key) ?? '[]')
+    return Array.isArray(entries)
+      ? entries.filter(
+          (entry) =>
+            typeof entry?.value === 'string' && typeof entry?.label === 'string'
+        )
+      : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Writes the history under a key, ignoring storage that is full or blocked.
+ *
+ * @param storage Where the history is kept
+ * @param key The key the history is kept under
+ * @param entries The entries, most recent first
+ */
+export function writeHistory(
+  storage: HistoryStorage,
+  key: string,
+  entries: ComboBoxItem[]
+) {
+  try {
+    storage.setItem(KEY_PREFIX + key, JSON.stringify(entries))
+  } catch {
+    // The history is a convenience, so losing it isn't worth failing the commit
+  }
+}
+
+/**
+ * Moves an entry to the front of the history, dropping the oldest entries past the
+ * limit.
+ *
+ * @param entries The entries, most recent first
+ * @param entry The entry just committed
+ * @param limit How many entries to keep
+ */
+export function addHistoryEntry(
+  entries: ComboBoxItem[],
+  entry: ComboBoxItem,
+  limit: number
+) {
+  return [
+    {value: entry.value, label: entry.label},
+    ...entries.filter((existing) => existing.value !== entry.value),
+  ].slice(0, limit)
+}
@@ -0,0 +1,84 @@
+/**
+ * The actions that can be bound to keys while focused in the combo box's input.
+ */
+export type KeyboardAction =
+  | 'commit'
+  | 'next'
+  | 'previous'
+  | 'first'
+  | 'last'
+  | 'nextPage'
+  | 'previousPage'
+  | 'open'
+  | 'close'
+  | 'dismiss'
+  | 'acceptCompletion'
+  | 'removeLastChip'
+  | 'removeHistoryEntry'
+
+/**
+ * The keys bound to each action, written as the `KeyboardEvent.key` optionally prefixed
+ * by modifiers, such as `Alt+ArrowDown` or `Ctrl+Shift+Home`. An action bound to no
+ * keys is disabled.
+ */
+export type Keymap = Record<KeyboardAction, Array<string>>
+
+/**
+ * The bindings following the WAI-ARIA Authoring Practices combobox pattern.
+ *
+ * @link https://www.w3.org/WAI/ARIA/apg/patterns/combobox/
+ */
+export const defaultKeymap: Keymap = {
+  commit: ['Enter'],
+  next: ['ArrowDown'],
+  previous: ['ArrowUp'],
+  first: ['Home'],
+  last: ['End'],
+  nextPage: ['PageDown'],
+  previousPage: ['PageUp'],
+  open: ['Alt+ArrowDown'],
+  close: ['Alt+ArrowUp'],
+  dismiss: ['Escape'],
+  acceptCompletion: ['ArrowRight'],
+  removeLastChip: ['Backspace'],
+  removeHistoryEntry: ['Shift+Delete'],
+}
+
+const modifiers = ['Alt', 'Ctrl', 'Meta', 'Shift'] as const
+
+/**
+ * Whether a keyboard event is for the key binding, with exactly the modifiers it names
+ * held down.
+ *
+ * @param e The keyboard event
+ * @param binding The key binding, such as `Alt+ArrowDown`
+ */
+export function matchesKeyBinding(e: KeyboardEvent, binding: string) {
+  const parts = binding.split('+')
+  const key = parts.pop()
+  const held = {
+    Alt: e.altKey,
+    Ctrl: e.ctrlKey,
+    Meta: e.metaKey,
+    Shift: e.shiftKey,
+  }
+  return (
+    key?.toLowerCase() === e.key.toLowerCase() &&
+    modifiers.every((modifier) => held[modifier] === parts.includes(modifier))
+  )
+}
+
+/**
+ * Finds the action bound to the key pressed, if there is one.
+ *
+ * @param e The keyboard event
+ * @param keymap The key bindings of each action
+ */
+export function findKeyboardAction(
+  e: KeyboardEvent,
+  keymap: Keymap
+): KeyboardAction | undefined {
+  return (Object.keys(keymap) as Array<KeyboardAction>).find((action) =>
+    keymap[action].some((binding) => matchesKeyBinding(e, binding))
+  )
+}
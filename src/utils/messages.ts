@@ -0,0 +1,86 @@
+/**
+ * The text the combo box shows and announces to the user. Register translations of
+ * these for a locale with `registerMessages`, or override any of them on a single combo
+ * box through its `messages` property.
+ */
+export interface ComboBoxMessages {
+  /** Announced once the suggestions settle after typing or loading */
+  suggestionsAvailable: (count: number) => string
+  /** Shown and announced when no suggestions are left */
+  noResults: string
+  /** Shown in the suggestion list while suggestions are loading */
+  loading: string
+  /** Shown and announced when suggestions fail to load */
+  loadingFailed: string
+  /** Announced when an option is committed */
+  selected: (label: string) => string
+  /** Announced when a chosen option is removed in multiple mode */
+  deselected: (label: string) => string
+  /** The option offering to create a new option from the typed text */
+  createOption: (text: string) => string
+  /** Shown and announced when an option could not be created from the typed text */
+  createFailed: (text: string) => string
+  /** The label of the button clearing the combo box */
+  clear: string
+  /** The label of the group of recently committed options */
+  recent: string
+  /** The label of the button removing an option from the recent options */
+  removeHistoryEntry: (label: string) => string
+  /** The label of the button removing a chip in multiple mode */
+  removeChip: (label: string) => string
+  /** The validation message when a required combo box has nothing committed */
+  valueMissing: string
+  /** The validation message when a strict combo box holds text matching no option */
+  optionMismatch: string
+}
+
+export const defaultMessages: ComboBoxMessages = {
+  suggestionsAvailable: (count) =>
+    `${count} ${count === 1 ? 'suggestion' : 'suggestions'} available`,
+  noResults: 'No results',
+  loading: 'Loading…',
+  loadingFailed: 'Suggestions could not be loaded',
+  selected: (label) => `Selected ${label}`,
+  deselected: (label) => `Removed ${label}`,
+  createOption: (text) => `Create “${text}”`,
+  createFailed: (text) => `“${text}” could not be created`,
+  clear: 'Clear',
+  removeChip: (label) => `Remove ${label}`,
+  recent: 'Recent',
+  removeHistoryEntry: (label) => `Remove ${label} from recent`,
+  valueMissing: 'Please select an option.',
+  optionMismatch: 'Please select one of the suggested options.',
+}
+
+const localeMessages = new Map<string, Partial<ComboBoxMessages>>()
+
+/**
+ * Registers the messages used by every combo box in a locale, such as `de` or `de-CH`.
+ * Any messages left out fall back to those of the language, then to English.
+ *
+ * @param locale The BCP 47 language tag the messages are written in
+ * @param messages The translated messages
+ */
+export function registerMessages(
+  locale: string,
+  messages: Partial<ComboBoxMessages>
+) {
+  localeMessages.set(locale.toLowerCase(), messages)
+}
+
+/**
+ * Looks up the messages registered for a locale, falling back to those of its language
+ * and then to English for any that are missing.
+ *
+ * @param locale The BCP 47 language tag to look up
+ */
+export function getMessages(locale?: string): ComboBoxMessages {
+  if (!locale) return defaultMessages
+  const tag = locale.toLowerCase()
+  const language = tag.split('-')[0]
+  return {
+    ...defaultMessages,
+    ...localeMessages.get(language),
+    ...localeMessages.get(tag),
+  }
+}
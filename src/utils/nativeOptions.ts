@@ -0,0 +1,87 @@
+import type {ComboBoxItem} from '../combo-box'
+
+/**
+ * A native element the combo box can take its options from.
+ */
+export type NativeOptionSource = HTMLSelectElement | HTMLDataListElement
+
+/**
+ * Marks the elements created from a native element's options, so that they can be
+ * replaced when its options change.
+ */
+export const NATIVE_OPTION_ATTRIBUTE = 'data-native-option'
+
+function createOptionElement(option: HTMLOptionElement, isDisabled: boolean) {
+  const element = document.createElement('li')
+  element.setAttribute(NATIVE_OPTION_ATTRIBUTE, '')
+  element.dataset.value = option.value
+  element.textContent = option.label
+  if (isDisabled) {
+    element.setAttribute('disabled', '')
+  }
+  return element
+}
+
+/**
+ * Creates an li for each option of a select or datalist, with option groups becoming
+ * combo box groups. Options without a value are left out, as they are placeholders
+ * such as "Choose a city".
+ *
+ * @param source The select or datalist to read the options of
+ */
+export function createNativeOptionElements(source: NativeOptionSource) {
+  const fragment = document.createDocumentFragment()
+  for (const child of Array.from(source.children)) {
+    if (child instanceof HTMLOptGroupElement) {
+      const group = document.createElement('combo-box-group')
+      group.setAttribute(NATIVE_OPTION_ATTRIBUTE, '')
+      group.label = child.label
+      for (const option of Array.from(child.children)) {
+        if (option instanceof HTMLOptionElement && option.value !== '') {
+          group.append(
+            createOptionElement(option, child.disabled || option.disabled)
+          )
+        }
+      }
+      fragment.append(group)
+    } else if (child instanceof HTMLOptionElement && child.value !== '') {
+      fragment.append(createOptionElement(child, child.disabled))
+    }
+  }
+  return fragment
+}
+
+/**
+ * The options a select starts with selected, leaving out placeholders without a value.
+ *
+ * @param select The select to read the selected options of
+ */
+export function getDefaultSelectedItems(
+  select: HTMLSelectElement
+): ComboBoxItem[] {
+  return Array.from(select.options)
+    .filter((option) => option.defaultSelected && option.value !== '')
+    .map((option) => ({value: option.value, label: option.label}))
+}
+
+/**
+ * Selects the options of a select with the given values, and no others.
+ *
+ * @param select The select to update
+ * @param values The values to select
+ * @returns Whether any option's selectedness changed
+ */
+export function selectNativeOptions(
+  select: HTMLSelectElement,
+  values: string[]
+) {
+  let hasChanged = false
+  for (const option of Array.from(select.options)) {
+    const isSelected = values.includes(option.value)
+    if (option.selected !== isSelected) {
+      option.selected = isSelected
+      hasChanged = true
+    }
+  }
+  return hasChanged
+}
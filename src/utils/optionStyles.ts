@@ -0,0 +1,42 @@
+import {css} from 'lit'
+
+/**
+ * Styles for suggestions slotted as li elements, shared by the combo box and its option
+ * groups. A selected suggestion is the one moused over or navigated to via keyboard,
+ * whereas a chosen suggestion is one committed in multiple mode.
+ */
+export const slottedOptionStyles = css`
+  ::slotted(li) {
+    cursor: pointer;
+    padding: var(--combo-box-option-padding, 0.5rem 1rem);
+  }
+
+  ::slotted(li:not([disabled]):hover) {
+    background-color: var(--combo-box-option-color-background-hover);
+  }
+
+  ::slotted(li.selected) {
+    background-color: var(
+      --combo-box-suggestion-list-color-background-selected
+    );
+    color: var(--combo-box-suggestion-list-color-foreground-selected);
+  }
+
+  ::slotted(li[disabled]) {
+    cursor: not-allowed;
+    color: var(--combo-box-option-color-foreground-disabled);
+  }
+
+  ::slotted(li.chosen) {
+    font-weight: var(--combo-box-option-font-weight-chosen, bold);
+    background-color: var(--combo-box-option-color-background-chosen);
+  }
+
+  @media (forced-colors: active) {
+    ::slotted(li.selected) {
+      forced-color-adjust: none;
+      background-color: Highlight;
+      color: HighlightText;
+    }
+  }
+`
@@ -0,0 +1,57 @@
+/**
+ * Which side of the input the suggestion list is shown on.
+ */
+export type Placement = 'bottom' | 'top'
+
+export interface PopupPosition {
+  placement: Placement
+  /**
+   * The height available to the popup on its side of the anchor, within the viewport.
+   */
+  availableHeight: number
+  /**
+   * Viewport coordinates of the popup, for when it is positioned fixed in the top layer.
+   */
+  top?: number
+  bottom?: number
+  left: number
+  width: number
+}
+
+/**
+ * Works out where to show a popup so that it stays within the viewport. The popup goes
+ * below its anchor if it fits there, otherwise on whichever side has more room, and is
+ * limited to the height available on that side.
+ *
+ * @param anchor The bounding rect of the element the popup is attached to
+ * @param popupHeight The height the popup would like to be
+ * @param viewportHeight The height of the visible viewport
+ * @param margin Space to keep between the popup and the edge of the viewport
+ */
+export function computePopupPosition(
+  anchor: DOMRect,
+  popupHeight: number,
+  viewportHeight: number,
+  margin = 8
+): PopupPosition {
+  const spaceBelow = Math.max(0, viewportHeight - anchor.bottom - margin)
+  const spaceAbove = Math.max(0, anchor.top - margin)
+  const placement: Placement =
+    popupHeight <= spaceBelow || spaceBelow >= spaceAbove ? 'bottom' : 'top'
+
+  return placement === 'bottom'
+    ? {
+        placement,
+        availableHeight: spaceBelow,
+        top: anchor.bottom,
+        left: anchor.left,
+        width: anchor.width,
+      }
+    : {
+        placement,
+        availableHeight: spaceAbove,
+        bottom: viewportHeight - anchor.top,
+        left: anchor.left,
+        width: anchor.width,
+      }
+}
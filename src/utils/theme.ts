@@ -0,0 +1,90 @@
+import {css} from 'lit'
+
+/**
+ * The tokens the dark theme changes, shared by the `prefers-color-scheme` query and
+ * the explicit `theme="dark"`.
+ */
+const darkTokens = css`
+  --combo-box-color-foreground: #e3e3e3;
+  --combo-box-color-background: #1f1f1f;
+  --combo-box-color-muted: #a8a8a8;
+  --combo-box-color-border: #8e8e8e;
+  --combo-box-color-accent: #a8c7fa;
+  --combo-box-suggestion-list-box-shadow: 0px 8px 16px 0px rgb(0 0 0 / 60%);
+  --combo-box-suggestion-list-color-background-selected: #3c3c3c;
+`
+
+/**
+ * The default values of the combo box's design tokens. They are set on the host, so a
+ * developer's styles for the combo box element take precedence over them.
+ */
+export const themeStyles = css`
+  :host {
+    --combo-box-font-family: inherit;
+    --combo-box-font-size: inherit;
+    --combo-box-spacing: 0.5rem;
+
+    --combo-box-color-foreground: #1f1f1f;
+    --combo-box-color-background: #fff;
+    --combo-box-color-muted: #555;
+    --combo-box-color-border: #555;
+    --combo-box-color-accent: #0b57d0;
+
+    --combo-box-input-padding: calc(var(--combo-box-spacing) / 2)
+      var(--combo-box-spacing);
+    --combo-box-input-border: 1px solid var(--combo-box-color-border);
+    --combo-box-input-border-radius: 2px;
+    --combo-box-input-background: var(--combo-box-color-background);
+    --combo-box-input-color: var(--combo-box-color-foreground);
+    --combo-box-focus-ring: 2px solid var(--combo-box-color-accent);
+    --combo-box-disabled-opacity: 0.5;
+
+    --combo-box-suggestion-list-border: 1px solid var(--combo-box-color-border);
+    --combo-box-suggestion-list-border-radius: 2px;
+    --combo-box-suggestion-list-box-shadow: 0px 8px 16px 0px rgb(0 0 0 / 20%);
+    --combo-box-suggestion-list-background: var(--combo-box-color-background);
+    --combo-box-suggestion-list-color: var(--combo-box-color-foreground);
+    --combo-box-suggestion-list-color-background-selected: #eee;
+    --combo-box-suggestion-list-color-foreground-selected: inherit;
+
+    --combo-box-option-padding: var(--combo-box-spacing)
+      calc(var(--combo-box-spacing) * 2);
+    --combo-box-option-color-background-hover: var(
+      --combo-box-suggestion-list-color-background-selected
+    );
+    --combo-box-option-color-foreground-disabled: var(--combo-box-color-muted);
+    --combo-box-option-color-background-chosen: transparent;
+    --combo-box-option-font-weight-chosen: bold;
+
+    --combo-box-group-label-background: var(--combo-box-color-background);
+    --combo-box-group-label-color: var(--combo-box-color-muted);
+    --combo-box-list-state-color: var(--combo-box-color-muted);
+    --combo-box-touch-target-size: auto;
+  }
+
+  @media (pointer: coarse) {
+    :host {
+      --combo-box-option-padding: calc(var(--combo-box-spacing) * 1.5)
+        calc(var(--combo-box-spacing) * 2);
+      --combo-box-touch-target-size: 44px;
+    }
+  }
+
+  @media (prefers-color-scheme: dark) {
+    :host(:not([theme='light'])) {
+      ${darkTokens}
+    }
+  }
+
+  :host([theme='dark']) {
+    ${darkTokens}
+  }
+
+  @media (forced-colors: active) {
+    :host {
+      --combo-box-focus-ring: 2px solid Highlight;
+      --combo-box-suggestion-list-border: 1px solid CanvasText;
+      --combo-box-option-color-foreground-disabled: GrayText;
+    }
+  }
+`
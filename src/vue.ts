@@ -0,0 +1,135 @@
+import {defineComponent, h, Prop} from 'vue'
+import type {ComboBox as ComboBoxElement, ComboBoxEventMap} from './combo-box'
+import './combo-box'
+
+/**
+ * A prop for a property of the combo box. Props have no runtime type, so that those left
+ * out keep the element's own defaults rather than Vue casting the missing booleans to
+ * false.
+ */
+function elementProp<Name extends keyof ComboBoxElement>(): Prop<
+  ComboBoxElement[Name]
+> {
+  return {type: null}
+}
+
+/**
+ * A prop for a boolean property of the combo box, so that a bare attribute in a template
+ * turns it on. Its default is undefined, so that leaving it out still keeps the element's
+ * own default.
+ */
+function booleanElementProp(): Prop<boolean> {
+  return {type: Boolean, default: undefined}
+}
+
+/**
+ * An event emitted by the component, typed by its payload. Events are re-emitted as the
+ * element dispatched them, so there is nothing to validate.
+ */
+function emitted<Payload>() {
+  return (_payload: Payload) => true
+}
+
+/**
+ * The Combo Box as a Vue component. Every property of the element can be passed as a
+ * prop, objects and functions included, and its events are emitted with their details
+ * typed. `v-model` binds the committed value and `v-model:inputValue` the text in the
+ * input. Options are passed through the default slot.
+ */
+export const ComboBox = defineComponent({
+  name: 'ComboBox',
+  props: {
+    modelValue: elementProp<'value'>(),
+    inputValue: elementProp<'inputValue'>(),
+    controlled: booleanElementProp(),
+    label: elementProp<'label'>(),
+    name: elementProp<'name'>(),
+    required: booleanElementProp(),
+    disabled: booleanElementProp(),
+    readonly: booleanElementProp(),
+    strict: booleanElementProp(),
+    open: booleanElementProp(),
+    clearable: booleanElementProp(),
+    theme: elementProp<'theme'>(),
+    mode: elementProp<'mode'>(),
+    autocomplete: elementProp<'autocomplete'>(),
+    allowNavigationWrap: booleanElementProp(),
+    allowTabNavigation: booleanElementProp(),
+    keymap: elementProp<'keymap'>(),
+    messages: elementProp<'messages'>(),
+    locale: elementProp<'locale'>(),
+    filter: elementProp<'filter'>(),
+    matcher: elementProp<'matcher'>(),
+    topLayer: booleanElementProp(),
+    sheetBreakpoint: elementProp<'sheetBreakpoint'>(),
+    items: elementProp<'items'>(),
+    itemValue: elementProp<'itemValue'>(),
+    itemLabel: elementProp<'itemLabel'>(),
+    itemDisabled: elementProp<'itemDisabled'>(),
+    itemDescription: elementProp<'itemDescription'>(),
+    renderItem: elementProp<'renderItem'>(),
+    allowCreate: booleanElementProp(),
+    history: elementProp<'history'>(),
+    list: elementProp<'list'>(),
+    historyKey: elementProp<'historyKey'>(),
+    historyStorage: elementProp<'historyStorage'>(),
+    virtual: booleanElementProp(),
+    itemHeight: elementProp<'itemHeight'>(),
+    overscan: elementProp<'overscan'>(),
+    dataSource: elementProp<'dataSource'>(),
+    dataSourceDebounce: elementProp<'dataSourceDebounce'>(),
+    loading: booleanElementProp(),
+    error: elementProp<'error'>(),
+    state: elementProp<'state'>(),
+    multiple: booleanElementProp(),
+    values: elementProp<'values'>(),
+  },
+  emits: {
+    input: emitted<ComboBoxEventMap['input']>(),
+    select: emitted<ComboBoxEventMap['select']>(),
+    deselect: emitted<ComboBoxEventMap['deselect']>(),
+    change: emitted<ComboBoxEventMap['change']>(),
+    create: emitted<ComboBoxEventMap['create']>(),
+    clear: emitted<ComboBoxEventMap['clear']>(),
+    open: emitted<ComboBoxEventMap['open']>(),
+    close: emitted<ComboBoxEventMap['close']>(),
+    highlight: emitted<ComboBoxEventMap['highlight']>(),
+    'update:modelValue': emitted<string>(),
+    'update:inputValue': emitted<string>(),
+  },
+  setup(props, {emit, slots}) {
+    const listeners = {
+      onInput: (event: ComboBoxEventMap['input']) => {
+        emit('input', event)
+        emit('update:inputValue', event.detail.value)
+      },
+      onSelect: (event: ComboBoxEventMap['select']) => emit('select', event),
+      onDeselect: (event: ComboBoxEventMap['deselect']) =>
+        emit('deselect', event),
+      onChange: (event: ComboBoxEventMap['change']) => {
+        emit('change', event)
+        const element = event.target as ComboBoxElement
+        emit('update:modelValue', element.value)
+        // Committing fills the option's label into the input
+        emit('update:inputValue', element.inputValue)
+      },
+      onCreate: (event: ComboBoxEventMap['create']) => emit('create', event),
+      onClear: (event: ComboBoxEventMap['clear']) => emit('clear', event),
+      onOpen: (event: ComboBoxEventMap['open']) => emit('open', event),
+      onClose: (event: ComboBoxEventMap['close']) => emit('close', event),
+      onHighlight: (event: ComboBoxEventMap['highlight']) =>
+        emit('highlight', event),
+    }
+
+    return () => {
+      const data: Record<string, unknown> = {...listeners}
+      for (const [name, value] of Object.entries(props)) {
+        if (value !== undefined) {
+          // Set as properties rather than attributes, so objects and functions work
+          data[name === 'modelValue' ? '.value' : `.${name}`] = value
+        }
+      }
+      return h('combo-box', data, slots.default?.())
+    }
+  },
+})
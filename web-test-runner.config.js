@@ -5,6 +5,9 @@
  */
 
 import {legacyPlugin} from '@web/dev-server-legacy'
+import {fromRollup} from '@web/dev-server-rollup'
+import rollupCommonjs from '@rollup/plugin-commonjs'
+import rollupReplace from '@rollup/plugin-replace'
 import {playwrightLauncher} from '@web/test-runner-playwright'
 
 const mode = process.env.MODE || 'dev'
@@ -12,6 +15,9 @@ if (!['dev', 'prod'].includes(mode)) {
   throw new Error(`MODE must be "dev" or "prod", was "${mode}"`)
 }
 
+const commonjs = fromRollup(rollupCommonjs)
+const replace = fromRollup(rollupReplace)
+
 // Uncomment for testing on Sauce Labs
 // Must run `npm i --save-dev @web/test-runner-saucelabs` and set
 // SAUCE_USERNAME and SAUCE_USERNAME environment variables
@@ -91,7 +97,8 @@ try {
 // https://modern-web.dev/docs/test-runner/cli-and-configuration/
 export default {
   rootDir: '.',
-  files: ['./test/**/*_test.js'],
+  // The server rendering tests run in Node instead, through `npm run test:ssr`
+  files: ['./test/**/*_test.js', '!./test/ssr/**'],
   nodeResolve: {exportConditions: mode === 'dev' ? ['development'] : []},
   preserveSymlinks: true,
   browsers: commandLineBrowsers ?? Object.values(browsers),
@@ -103,6 +110,34 @@ export default {
     },
   },
   plugins: [
+    // React is only published as CommonJS, which the wrapper tests need converted
+    commonjs({
+      include: [
+        '**/node_modules/react/**',
+        '**/node_modules/react-dom/**',
+        '**/node_modules/scheduler/**',
+      ],
+    }),
+    // React and Vue read the mode they run in from the bundler
+    replace({
+      preventAssignment: true,
+      'process.env.NODE_ENV': JSON.stringify(
+        mode === 'dev' ? 'development' : 'production'
+      ),
+      __VUE_OPTIONS_API__: 'true',
+      __VUE_PROD_DEVTOOLS__: 'false',
+      __VUE_PROD_HYDRATION_MISMATCH_DETAILS__: 'false',
+    }),
+    // Renders templates on the server for the hydration tests, loading them into the
+    // server's DOM shim, which needs Node's `--experimental-vm-modules`
+    {
+      name: 'render-ssr',
+      async executeCommand({command, payload}) {
+        if (command !== 'render-ssr') return undefined
+        const {renderToString} = await import('./test/ssr/render-to-string.js')
+        return renderToString(payload)
+      },
+    },
     // Detect browsers without modules (e.g. IE11) and transform to SystemJS
     // (https://modern-web.dev/docs/dev-server/plugins/legacy/).
     legacyPlugin({